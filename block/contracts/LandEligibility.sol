@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+
+/// @dev The parts of LandRegistry the rules read
+interface ILandRegistryRoles {
+    function owner() external view returns (address);
+    function roles(address account) external view returns (uint8);
+    function manualRateSenPerEth() external view returns (uint256);
+}
+
+/// @notice Who may buy which parcel: title restrictions set by staff per parcel, checked
+/// against buyer attributes staff attest after reviewing the buyer's documents
+/// @dev Kept out of LandRegistry, like LandFees, so the rules can grow without
+/// redeploying the registry
+contract LandEligibility {
+    uint8 private constant ROLE_STAFF = 2; // LandRegistry.Role.Staff
+
+    struct Restrictions {
+        bool malayReserve;          // Malay Reserve land: only Malay buyers
+        bool stateConsentRequired;  // each transfer needs state authority consent for the buyer
+        uint256 foreignMinPriceSen; // foreign buyers must pay at least this; 0 = no minimum
+    }
+
+    struct BuyerProfile {
+        bool attested;  // staff reviewed the buyer; restricted parcels refuse everyone else
+        bool malay;
+        bool foreign;
+    }
+
+    // Why checkEligibility refused a buyer; None = eligible
+    enum Refusal { None, BuyerNotAttested, NotMalay, NoStateConsent, BelowForeignMinimum }
+
+    ILandRegistryRoles public immutable registry;
+
+    mapping(uint256 => Restrictions) public restrictions;
+    mapping(address => BuyerProfile) public buyerProfiles;
+    mapping(uint256 => mapping(address => bool)) public stateConsent; // landId => buyer => granted
+
+    error NotStaff();
+    error InvalidAddress();
+    error BuyerNotAttested(address buyer);
+    error MalayReserveLand(uint256 landId, address buyer);
+    error StateConsentRequired(uint256 landId, address buyer);
+    error BelowForeignMinimum(uint256 landId, uint256 valueSen, uint256 minimumSen);
+    error PriceUnknown(uint256 landId);
+
+    event RestrictionsUpdated(
+        uint256 indexed landId,
+        bool malayReserve,
+        bool stateConsentRequired,
+        uint256 foreignMinPriceSen
+    );
+    event BuyerAttested(address indexed buyer, bool malay, bool foreign, address indexed staff);
+    event StateConsentUpdated(uint256 indexed landId, address indexed buyer, bool granted);
+
+    /// @dev Matches LandRegistry.onlyStaff: the registry owner can always act as staff
+    modifier onlyStaff() {
+        require(registry.roles(msg.sender) == ROLE_STAFF || msg.sender == registry.owner(), NotStaff());
+        _;
+    }
+
+    constructor(address landRegistry) {
+        require(landRegistry != address(0), InvalidAddress());
+        registry = ILandRegistryRoles(landRegistry);
+    }
+
+    /// @notice Record the restrictions on a parcel's title
+    function setRestrictions(
+        uint256 landId,
+        bool malayReserve,
+        bool stateConsentRequired,
+        uint256 foreignMinPriceSen
+    ) external onlyStaff {
+        restrictions[landId] = Restrictions(malayReserve, stateConsentRequired, foreignMinPriceSen);
+        emit RestrictionsUpdated(landId, malayReserve, stateConsentRequired, foreignMinPriceSen);
+    }
+
+    /// @notice Attest a buyer's bumiputera / residency status after checking their documents
+    function attestBuyer(address buyer, bool malay, bool foreign) external onlyStaff {
+        require(buyer != address(0), InvalidAddress());
+        buyerProfiles[buyer] = BuyerProfile(true, malay, foreign);
+        emit BuyerAttested(buyer, malay, foreign, msg.sender);
+    }
+
+    /// @notice Record (or withdraw) the state authority's consent for `buyer` to take `landId`
+    function setStateConsent(uint256 landId, address buyer, bool granted) external onlyStaff {
+        stateConsent[landId][buyer] = granted;
+        emit StateConsentUpdated(landId, buyer, granted);
+    }
+
+    /// @notice Whether `buyer` may take `landId` at `price`, and the first rule refusing them
+    /// @param price  wei for ETH (`token` = address(0)), otherwise token units
+    function checkEligibility(
+        uint256 landId,
+        address buyer,
+        address token,
+        uint256 price
+    ) public view returns (Refusal) {
+        Restrictions memory r = restrictions[landId];
+        if (!r.malayReserve && !r.stateConsentRequired && r.foreignMinPriceSen == 0) return Refusal.None;
+
+        BuyerProfile memory b = buyerProfiles[buyer];
+        if (!b.attested) return Refusal.BuyerNotAttested;
+        if (r.malayReserve && !b.malay) return Refusal.NotMalay;
+        if (r.stateConsentRequired && !stateConsent[landId][buyer]) return Refusal.NoStateConsent;
+        if (b.foreign && r.foreignMinPriceSen > 0) {
+            if (_valueSen(landId, token, price) < r.foreignMinPriceSen) {
+                return Refusal.BelowForeignMinimum;
+            }
+        }
+        return Refusal.None;
+    }
+
+    /// @notice Revert with the reason `buyer` may not take `landId` at `price`; the registry
+    /// calls this before taking a buyer's money and before transferring
+    function requireEligible(
+        uint256 landId,
+        address buyer,
+        address token,
+        uint256 price
+    ) external view {
+        Refusal refusal = checkEligibility(landId, buyer, token, price);
+        if (refusal == Refusal.None) return;
+        if (refusal == Refusal.BuyerNotAttested) revert BuyerNotAttested(buyer);
+        if (refusal == Refusal.NotMalay) revert MalayReserveLand(landId, buyer);
+        if (refusal == Refusal.NoStateConsent) revert StateConsentRequired(landId, buyer);
+        revert BelowForeignMinimum(
+            landId,
+            _valueSen(landId, token, price),
+            restrictions[landId].foreignMinPriceSen
+        );
+    }
+
+    /// @dev MYR value of `price` in sen: tokens are MYR stablecoins, ETH goes through the
+    /// owner-set manual rate. Never the seller's listing rate, which the seller could inflate
+    /// to lift a price over the foreign-buyer minimum.
+    function _valueSen(uint256 landId, address token, uint256 price) private view returns (uint256) {
+        if (token != address(0)) {
+            uint8 decimals = IERC20Metadata(token).decimals();
+            return decimals >= 2 ? price / 10 ** (decimals - 2) : price * 10 ** (2 - decimals);
+        }
+        uint256 rate = registry.manualRateSenPerEth();
+        require(rate > 0, PriceUnknown(landId));
+        return (price * rate) / 1e18;
+    }
+}
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+
+/// @notice Government fees on a land transfer: tiered stamp duty on the memorandum of
+/// transfer (MOT) plus a flat registration fee, both paid to the treasury
+/// @dev Kept out of LandRegistry so the schedule can change without redeploying the
+/// registry, which is also close to the contract size limit
+contract LandFees is Ownable {
+    uint256 private constant SEN_PER_RM = 100;
+
+    // Stamp duty (MOT) tiers, in sen, on the consideration
+    uint256 private constant TIER1_LIMIT = 100_000 * SEN_PER_RM;   // 1% up to RM100,000
+    uint256 private constant TIER2_LIMIT = 500_000 * SEN_PER_RM;   // 2% up to RM500,000
+    uint256 private constant TIER3_LIMIT = 1_000_000 * SEN_PER_RM; // 3% up to RM1,000,000, 4% above
+
+    address public treasury;
+    uint256 public registrationFeeSen;
+
+    error InvalidTreasury();
+    error InvalidRate();
+
+    event TreasuryUpdated(address treasury);
+    event RegistrationFeeUpdated(uint256 feeSen);
+
+    constructor(address initialTreasury, uint256 initialRegistrationFeeSen) Ownable(msg.sender) {
+        require(initialTreasury != address(0), InvalidTreasury());
+        treasury = initialTreasury;
+        registrationFeeSen = initialRegistrationFeeSen;
+    }
+
+    function setTreasury(address newTreasury) external onlyOwner {
+        require(newTreasury != address(0), InvalidTreasury());
+        treasury = newTreasury;
+        emit TreasuryUpdated(newTreasury);
+    }
+
+    function setRegistrationFee(uint256 feeSen) external onlyOwner {
+        registrationFeeSen = feeSen;
+        emit RegistrationFeeUpdated(feeSen);
+    }
+
+    /// @notice MOT stamp duty on a consideration of `valueSen`, each tier charged on its own slice
+    function stampDutySen(uint256 valueSen) public pure returns (uint256) {
+        uint256 duty = _slice(valueSen, 0, TIER1_LIMIT);
+        duty += _slice(valueSen, TIER1_LIMIT, TIER2_LIMIT) * 2;
+        duty += _slice(valueSen, TIER2_LIMIT, TIER3_LIMIT) * 3;
+        duty += _slice(valueSen, TIER3_LIMIT, type(uint256).max) * 4;
+        return duty / 100;
+    }
+
+    /// @notice Fees on a sale at `price`, in the same unit as the price
+    /// @param price          wei for ETH sales (`token` = address(0)), otherwise token units
+    /// @param token          MYR stablecoin the sale settles in (1 token = RM 1), or address(0)
+    /// @param rateSenPerEth  MYR/ETH rate to value an ETH price at; ignored for token sales
+    function quote(
+        uint256 price,
+        address token,
+        uint256 rateSenPerEth
+    ) external view returns (uint256 stampDuty, uint256 registrationFee) {
+        if (token == address(0)) {
+            require(rateSenPerEth > 0, InvalidRate());
+            uint256 valueSen = (price * rateSenPerEth) / 1e18;
+            stampDuty = (stampDutySen(valueSen) * 1e18) / rateSenPerEth;
+            registrationFee = (registrationFeeSen * 1e18) / rateSenPerEth;
+        } else {
+            uint8 decimals = IERC20Metadata(token).decimals();
+            stampDuty = _fromSen(stampDutySen(_toSen(price, decimals)), decimals);
+            registrationFee = _fromSen(registrationFeeSen, decimals);
+        }
+    }
+
+    /// @dev The part of `value` that falls between `lower` and `upper`
+    function _slice(uint256 value, uint256 lower, uint256 upper) private pure returns (uint256) {
+        if (value <= lower) return 0;
+        return (value < upper ? value : upper) - lower;
+    }
+
+    function _toSen(uint256 amount, uint8 decimals) private pure returns (uint256) {
+        return decimals >= 2 ? amount / 10 ** (decimals - 2) : amount * 10 ** (2 - decimals);
+    }
+
+    function _fromSen(uint256 sen, uint8 decimals) private pure returns (uint256) {
+        return decimals >= 2 ? sen * 10 ** (decimals - 2) : sen / 10 ** (2 - decimals);
+    }
+}
@@ -1,17 +1,24 @@
 // SPDX-License-Identifier: MIT
-pragma solidity ^0.8.20;
+pragma solidity ^0.8.27; // require(condition, CustomError())
 
 import {ERC721URIStorage, ERC721} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {LandFees} from "./LandFees.sol";
+import {LandEligibility} from "./LandEligibility.sol";
 
-contract LandRegistry is ERC721URIStorage, Ownable {
+contract LandRegistry is ERC721URIStorage, Ownable, EIP712 {
     using Strings for uint256;
+    using SafeERC20 for IERC20;
 
     // Roles for access control
     enum Role { None, User, Staff }
     // Status of each land parcel
-    enum LandStatus { Active, ForSale, Pending_Approval, Approved }
+    enum LandStatus { Active, ForSale, Pending_Approval, Approved, PendingVerification, Rejected, InAuction }
 
     struct Land {
         uint256 landId;
@@ -19,20 +26,179 @@ contract LandRegistry is ERC721URIStorage, Ownable {
         string metadataCID;
     }
 
+    /// @notice Full on-chain state of a parcel, as shown in list views and the admin console
+    struct LandDetails {
+        Land land;
+        address owner;
+        string publicCID;
+        uint256 priceWei;
+        address paymentToken;
+        uint256 listingRateSenPerEth;
+        address pendingBuyer;
+        uint256 purchaseDeadline;
+        uint256 escrowedAmount;
+        uint256 completionDeadline;
+        address verifiedBy;
+        string rejectionReason;
+    }
+
+    /// @notice An escrowed purchase offer on a parcel
+    struct Offer {
+        address buyer;
+        uint256 amount;
+        uint256 fees;    // stamp duty + registration fee escrowed on top of the amount
+        bool active;
+    }
+
+    /// @notice An offer the buyer signs off-chain (EIP-712); the seller submits it with acceptSignedOffer
+    /// @dev Paid in a whitelisted ERC-20 the buyer has approved, since ETH cannot be pulled from a wallet
+    struct SignedOffer {
+        uint256 landId;
+        address buyer;
+        address token;
+        uint256 amount;
+        uint256 expiry;  // not acceptable after this timestamp
+        uint256 nonce;   // any unused value; cancelSignedOffer burns it
+    }
+
+    /// @notice Sale terms fixed while the parcel is listed, in the style of a Malaysian SPA
+    struct SaleTerms {
+        uint16 depositBps;        // share of the price escrowed on request (e.g. 1000 = 10%); 0 = full price up front
+        uint32 completionPeriod;  // seconds the buyer has to pay the balance once the seller accepts
+        bool forfeitOnDefault;    // a missed completion deadline pays the deposit to the seller instead of refunding it
+    }
+
+    /// @notice An English auction in ETH; the highest bid stays escrowed until settlement
+    struct Auction {
+        uint256 reservePrice;   // first bid must be at least this
+        uint256 minIncrement;   // later bids must beat the highest by at least this
+        uint256 endTime;        // no bids at or after this timestamp
+        address highestBidder;
+        uint256 highestBid;
+        uint256 highestBidFees; // fees escrowed on top of the highest bid, fixed when it was placed
+    }
+
     // string[] private _listofPublicCIDs = new string[](0); 
 
     uint256 private _tokenIdCounter = 1;
 
     // --- Existing mappings ---
+    // Parcel records are read through getLandsPage / getOwnedLands rather than
+    // per-mapping getters, which keeps the registry under the contract size limit
     mapping(address => string) public userMetadataCID;
     mapping(address => Role) public roles;
-    mapping(uint256 => Land) public lands;
-    mapping(address => uint256[]) public ownerToLandIds;
-    mapping(uint256 => string) public landToPublicCID;
+    mapping(uint256 => Land) internal lands;
+    mapping(address => uint256[]) internal ownerToLandIds;
+    mapping(uint256 => string) internal landToPublicCID;
 
     // --- New mappings for sale workflow ---
-    mapping(uint256 => uint256) public landPrices;    // listing price in wei
-    mapping(uint256 => address) public pendingBuyer;  // buyer address placeholder
+    mapping(uint256 => uint256) public landPrices;    // listing price in wei, or token units for token listings
+    mapping(uint256 => address) public listingToken;  // ERC-20 the parcel is priced in; address(0) = ETH
+    mapping(uint256 => uint256) public listingRateSenPerEth; // MYR/ETH rate (sen per ETH) the price was quoted at
+    mapping(uint256 => address) internal pendingBuyer; // buyer address placeholder
+    mapping(uint256 => uint256) internal purchaseDeadline; // seller must approve before this timestamp
+    mapping(uint256 => SaleTerms) public saleTerms;       // deposit/completion rules for the listing
+    mapping(uint256 => uint256) public escrowedAmount;    // what the pending buyer has paid in so far
+    mapping(uint256 => uint256) internal completionDeadline; // buyer must pay the balance before this; 0 until accepted
+    mapping(uint256 => uint256) internal escrowedFees;     // stamp duty + registration fee paid in with the price
+
+    // Offers book per parcel; offer ID = index, cleared when the parcel changes hands
+    mapping(uint256 => Offer[]) private _offers;
+
+    // Signed-offer nonces each buyer has used or cancelled
+    mapping(address => mapping(uint256 => bool)) public usedOfferNonces;
+
+    // Running or last auction per parcel, cleared when it is settled or cancelled
+    mapping(uint256 => Auction) public auctions;
+
+    // Sale proceeds and refunds owed to each address, paid out by withdraw()
+    mapping(address => uint256) public pendingWithdrawals;
+    // The same for token listings, per account and token, paid out by withdrawToken()
+    mapping(address => mapping(address => uint256)) public pendingTokenWithdrawals;
+
+    // ERC-20 tokens (MYR stablecoins) sellers may price parcels in
+    mapping(address => bool) public acceptedPaymentTokens;
+    address[] private _paymentTokens;
+
+    // Admin-set MYR/ETH rate (sen per ETH) for the "manual" rate source
+    uint256 public manualRateSenPerEth;
+    uint256 public manualRateUpdatedAt;
+
+    // Stamp duty / registration fee schedule and treasury; address(0) = no fees.
+    // Always paid by the buyer on top of the price: escrowed with purchase requests,
+    // ETH offers and bids, and pulled with the amount of a signed offer.
+    LandFees public landFees;
+    // Title restrictions and buyer attestations; address(0) = anyone registered may buy
+    LandEligibility public landEligibility;
+
+    // How long a seller has to approve a purchase request before it expires
+    uint256 public purchaseRequestWindow = 7 days;
+
+    // How long after an auction ends it can still be settled before anyone may unwind it with refundAuction
+    uint256 public constant AUCTION_SETTLEMENT_PERIOD = 7 days;
+
+    // --- Staff verification workflow ---
+    mapping(uint256 => string) internal rejectionReasons; // reason given by staff on rejection
+    mapping(uint256 => address) internal verifiedBy;    // staff member who reviewed the parcel
+
+    // --- Administration ---
+    uint256 public totalUsers;
+    address[] private _staffMembers;
+    mapping(address => Role) private _roleBeforeStaff;  // restored when staff are revoked
+
+    // --- Errors ---
+    // Custom errors rather than revert strings keep the contract under the 24 KB size limit
+    error InvalidStatusTransition(uint256 landId, LandStatus from, LandStatus to);
+    error NotLandOwner(uint256 landId, address caller);
+    // Access and registration
+    error NotRegisteredUser();
+    error NotStaff();
+    error AlreadyRegistered();
+    error AlreadyStaff();
+    error InvalidAddress();
+    // Administration
+    error InvalidWindow();
+    error InvalidRate();
+    error PaymentTokenNotAccepted();
+    // Parcel state
+    error LandNotFound();
+    error LandNotAwaitingVerification();
+    error CannotVerifyOwnLand();
+    error RejectionReasonRequired();
+    error LandNotForSale();
+    error LandNotInAuction();
+    error LandLocked();
+    error UseStartAuction();
+    error InvalidPrice();
+    // Purchases
+    error InvalidSaleTerms();
+    error PurchasePending();
+    error NoPendingPurchase();
+    error NotPendingBuyer();
+    error PurchaseRequestExpired();
+    error PurchaseRequestNotExpired();
+    error IncorrectPayment();
+    error CompletionInProgress();
+    error DepositNotAccepted();
+    error CompletionDeadlinePassed();
+    error CompletionDeadlineNotPassed();
+    // Offers and auctions
+    error OffersAreEthOnly();
+    error OwnerCannotBuy();
+    error OfferNotActive();
+    error OfferExpired();
+    error OfferNonceUsed();
+    error InvalidSignature();
+    error NotOfferBuyer();
+    error InvalidEndTime();
+    error AuctionEnded();
+    error AuctionNotEnded();
+    error AuctionHasBids();
+    error SettlementPeriodNotOver();
+    error BidTooLow();
+    // Withdrawals
+    error NothingToWithdraw();
+    error WithdrawalFailed();
 
     // --- Events ---
     event UserRegistered(address indexed user, string metadataCID);
@@ -41,101 +207,483 @@ contract LandRegistry is ERC721URIStorage, Ownable {
     event LandListed(uint256 indexed landId, uint256 priceWei);
     event PurchaseRequested(uint256 indexed landId, address indexed buyer);
     event LandOwnershipTransferred(uint256 indexed landId, address indexed newOwner);
+    event LandSubmittedForVerification(uint256 indexed landId, address indexed owner);
+    event LandVerified(uint256 indexed landId, address indexed staff);
+    event LandRejected(uint256 indexed landId, address indexed staff, string reason);
+    event StaffAppointed(address indexed account);
+    event StaffRevoked(address indexed account);
+    event PurchaseCancelled(uint256 indexed landId, address indexed buyer);
+    event PurchaseRejected(uint256 indexed landId, address indexed buyer);
+    event PurchaseExpired(uint256 indexed landId, address indexed buyer);
+    event PurchaseRefunded(uint256 indexed landId, address indexed buyer, uint256 amount);
+    event PurchaseRequestWindowUpdated(uint256 newWindow);
+    event ManualRateUpdated(uint256 senPerEth, uint256 updatedAt);
+    event OfferMade(uint256 indexed landId, uint256 indexed offerId, address indexed buyer, uint256 amount);
+    event OfferWithdrawn(uint256 indexed landId, uint256 indexed offerId, address indexed buyer, uint256 amount);
+    event OfferAccepted(uint256 indexed landId, uint256 indexed offerId, address indexed buyer, uint256 amount);
+    event LandDelisted(uint256 indexed landId);
+    event SignedOfferAccepted(uint256 indexed landId, address indexed buyer, address token, uint256 amount, uint256 nonce);
+    event SignedOfferCancelled(address indexed buyer, uint256 nonce);
+    event OfferRefunded(uint256 indexed landId, uint256 indexed offerId, address indexed buyer, uint256 amount);
+    event PaymentCredited(address indexed account, uint256 amount);
+    event Withdrawal(address indexed account, uint256 amount);
+    event TokenPaymentCredited(address indexed account, address indexed token, uint256 amount);
+    event TokenWithdrawal(address indexed account, address indexed token, uint256 amount);
+    event PaymentTokenUpdated(address indexed token, bool accepted);
+    event LandFeesUpdated(address indexed landFees);
+    event LandEligibilityUpdated(address indexed landEligibility);
+    event FeesCollected(uint256 indexed landId, address indexed treasury, uint256 amount);
+    event SaleTermsUpdated(uint256 indexed landId, uint16 depositBps, uint32 completionPeriod, bool forfeitOnDefault);
+    event DepositAccepted(uint256 indexed landId, address indexed buyer, uint256 completionDeadline);
+    event BalancePaid(uint256 indexed landId, address indexed buyer, uint256 amount);
+    event CompletionDefaulted(uint256 indexed landId, address indexed buyer, bool forfeited);
+    event AuctionStarted(uint256 indexed landId, uint256 reservePrice, uint256 minIncrement, uint256 endTime);
+    event BidPlaced(uint256 indexed landId, address indexed bidder, uint256 amount);
+    event AuctionSettled(uint256 indexed landId, address indexed winner, uint256 amount);
+    event AuctionCancelled(uint256 indexed landId);
+    event LandListedInToken(uint256 indexed landId, address indexed token, uint256 price);
+
+    bytes32 private constant SIGNED_OFFER_TYPEHASH = keccak256(
+        "SignedOffer(uint256 landId,address buyer,address token,uint256 amount,uint256 expiry,uint256 nonce)"
+    );
 
-    constructor() ERC721("GovLand", "MLN") Ownable(msg.sender) {}
+    constructor() ERC721("GovLand", "MLN") Ownable(msg.sender) EIP712("LandRegistry", "1") {}
 
+    // The modifiers call shared checks, as Ownable's onlyOwner does, so their code is not
+    // copied into every function that uses them
     modifier onlyRegisteredUser() {
-        require(roles[msg.sender] == Role.User, "Only registered users permitted");
+        _checkRegisteredUser();
         _;
     }
 
-    function addPublicCID(uint256 landId, string memory cid) internal {
-        landToPublicCID[landId] = cid;
+    modifier onlyStaff() {
+        _checkStaff();
+        _;
+    }
+
+    modifier onlyLandOwner(uint256 landId) {
+        _checkLandOwner(landId);
+        _;
+    }
+
+    function _checkRegisteredUser() internal view {
+        require(roles[msg.sender] == Role.User, NotRegisteredUser());
+    }
+
+    /// @dev The contract owner can always act as staff
+    function _checkStaff() internal view {
+        require(roles[msg.sender] == Role.Staff || msg.sender == owner(), NotStaff());
     }
 
-    function getPublicCID(uint256 landId) internal view returns (string memory) {
-        return landToPublicCID[landId];
+    /// @dev ownerOf reverts for unminted IDs, so this also checks the parcel exists
+    function _checkLandOwner(uint256 landId) internal view {
+        if (ownerOf(landId) != msg.sender) revert NotLandOwner(landId, msg.sender);
+    }
+
+    function addPublicCID(uint256 landId, string memory cid) internal {
+        landToPublicCID[landId] = cid;
     }
 
     /// @notice Register a new user with off-chain metadata CID
     function registerUserWithCID(string memory cid) external {
-        require(roles[msg.sender] == Role.None, "Already registered");
+        require(roles[msg.sender] == Role.None, AlreadyRegistered());
         roles[msg.sender] = Role.User;
         userMetadataCID[msg.sender] = cid;
+        totalUsers++;
         emit UserRegistered(msg.sender, cid);
     }
 
-    /// @notice Self-register without metadata
-    function selfRegisterUser() external {
-        require(roles[msg.sender] == Role.None, "Already registered");
-        roles[msg.sender] = Role.User;
-        emit UserRegistered(msg.sender, "");
+    /// @notice Grant the Staff role to `account`
+    function appointStaff(address account) external onlyOwner {
+        require(account != address(0), InvalidAddress());
+        require(roles[account] != Role.Staff, AlreadyStaff());
+
+        _roleBeforeStaff[account] = roles[account];
+        roles[account] = Role.Staff;
+        _staffMembers.push(account);
+        emit StaffAppointed(account);
+    }
+
+    /// @notice Revoke the Staff role; the account falls back to the role it held before
+    function revokeStaff(address account) external onlyOwner {
+        require(roles[account] == Role.Staff, NotStaff());
+
+        roles[account] = _roleBeforeStaff[account];
+        delete _roleBeforeStaff[account];
+
+        for (uint256 i = 0; i < _staffMembers.length; i++) {
+            if (_staffMembers[i] == account) {
+                _staffMembers[i] = _staffMembers[_staffMembers.length - 1];
+                _staffMembers.pop();
+                break;
+            }
+        }
+        emit StaffRevoked(account);
+    }
+
+    /// @notice Change how long sellers have to approve new purchase requests
+    function setPurchaseRequestWindow(uint256 newWindow) external onlyOwner {
+        require(newWindow > 0, InvalidWindow());
+        purchaseRequestWindow = newWindow;
+        emit PurchaseRequestWindowUpdated(newWindow);
+    }
+
+    /// @notice Set the MYR/ETH rate used when the frontend's rate source is "manual";
+    /// fees and eligibility value ETH prices at this rate too
+    function setManualRate(uint256 senPerEth) external onlyOwner {
+        require(senPerEth > 0, InvalidRate());
+        manualRateSenPerEth = senPerEth;
+        manualRateUpdatedAt = block.timestamp;
+        emit ManualRateUpdated(senPerEth, block.timestamp);
+    }
+
+    /// @notice Point the registry at a fee schedule; address(0) turns fees off
+    /// @dev ETH fees are quoted at the manual rate, so it must be set before fees are turned on
+    function setLandFees(address fees) external onlyOwner {
+        require(fees == address(0) || manualRateSenPerEth > 0, InvalidRate());
+        landFees = LandFees(fees);
+        emit LandFeesUpdated(fees);
+    }
+
+    /// @notice Point the registry at the transfer eligibility rules; address(0) turns them off
+    function setLandEligibility(address rules) external onlyOwner {
+        landEligibility = LandEligibility(rules);
+        emit LandEligibilityUpdated(rules);
+    }
+
+    /// @notice Allow or stop sellers pricing new listings in `token`
+    /// @dev Existing listings in a removed token can still be bought, refunded and withdrawn
+    function setPaymentTokenAccepted(address token, bool accepted) external onlyOwner {
+        require(token != address(0), InvalidAddress());
+        if (accepted && !_isKnownPaymentToken(token)) _paymentTokens.push(token);
+        acceptedPaymentTokens[token] = accepted;
+        emit PaymentTokenUpdated(token, accepted);
+    }
+
+    /// @notice Every token ever whitelisted; check acceptedPaymentTokens for the current state
+    function getPaymentTokens() external view returns (address[] memory) {
+        return _paymentTokens;
     }
 
-    /// @notice Mint a new land token AND automatically list it for sale
-    /// @param to           the address receiving the minted NFT
-    /// @param metadataCID  IPFS CID for initial metadata
-    /// @param priceWei     listing price in wei
+    function _isKnownPaymentToken(address token) internal view returns (bool) {
+        for (uint256 i = 0; i < _paymentTokens.length; i++) {
+            if (_paymentTokens[i] == token) return true;
+        }
+        return false;
+    }
+
+    /// @notice Mint a new land token and submit it to the staff verification queue
+    /// @dev The parcel becomes ForSale at `priceWei` once staff approve it
+    /// @param to             the address receiving the minted NFT
+    /// @param metadataCID    IPFS CID for initial metadata
+    /// @param priceWei       listing price in wei
+    /// @param rateSenPerEth  MYR/ETH rate the MYR asking price was converted at
     function registerLand(
         address to,
         string memory metadataCID,
         string memory publicCID,
-        uint256 priceWei
+        uint256 priceWei,
+        uint256 rateSenPerEth
     ) external onlyRegisteredUser {
+        require(priceWei > 0, InvalidPrice());
+        require(rateSenPerEth > 0, InvalidRate());
         uint256 newId = _tokenIdCounter++;
         _safeMint(to, newId);
 
-        // Initialize land record as ForSale
-        lands[newId] = Land(newId, LandStatus.ForSale, metadataCID);
-        ownerToLandIds[to].push(newId);
+        // Initialize land record as PendingVerification
+        lands[newId] = Land(newId, LandStatus.PendingVerification, metadataCID);
         addPublicCID(newId, publicCID);
         emit LandRegistered(newId, to, metadataCID);
 
-        // Set listing price and emit listing event
+        // Keep the asking price until staff approve the listing
         landPrices[newId] = priceWei;
-        emit LandStatusUpdated(newId, LandStatus.ForSale);
-        emit LandListed(newId, priceWei);
+        listingRateSenPerEth[newId] = rateSenPerEth;
+        emit LandStatusUpdated(newId, LandStatus.PendingVerification);
+        emit LandSubmittedForVerification(newId, to);
     }
 
-    /// @notice Update the on-chain status of a land
-    function updateLandStatus(uint256 landId, LandStatus newStatus) external onlyRegisteredUser {
-        require(_existsToken(landId), "Land not found");
-        require(ownerOf(landId) == msg.sender, "Only owner can update status");
-        lands[landId].status = newStatus;
-        emit LandStatusUpdated(landId, newStatus);
+    /// @notice Staff approve a submitted parcel, listing it for sale at its asking price
+    /// @dev Staff cannot approve parcels they own; another reviewer must
+    function approveLandVerification(uint256 landId) external onlyStaff {
+        // Unminted IDs are never PendingVerification, so this also checks the parcel exists
+        require(lands[landId].status == LandStatus.PendingVerification, LandNotAwaitingVerification());
+        require(ownerOf(landId) != msg.sender, CannotVerifyOwnLand());
+
+        verifiedBy[landId] = msg.sender;
+
+        emit LandVerified(landId, msg.sender);
+        _setStatus(landId, LandStatus.ForSale);
+        emit LandListed(landId, landPrices[landId]);
     }
 
-    function updateLandPrice(uint256 landId, uint256 newPriceWei) external onlyRegisteredUser {
-        require(_existsToken(landId), "Land does not exist");
-        require(ownerOf(landId) == msg.sender, "Only land owner can update price");
-        landPrices[landId] = newPriceWei;
-        emit LandListed(landId, newPriceWei);
+    /// @notice Staff reject a submitted parcel; it can never be listed or traded
+    function rejectLandVerification(uint256 landId, string calldata reason) external onlyStaff {
+        require(lands[landId].status == LandStatus.PendingVerification, LandNotAwaitingVerification());
+        require(bytes(reason).length > 0, RejectionReasonRequired());
+
+        verifiedBy[landId] = msg.sender;
+        rejectionReasons[landId] = reason;
+        _clearListingPrice(landId);
+
+        emit LandRejected(landId, msg.sender, reason);
+        _setStatus(landId, LandStatus.Rejected);
     }
 
     /// @notice Update both land status and price in one transaction
-    function updateLandDetails(uint256 landId, LandStatus newStatus, uint256 newPriceWei) external onlyRegisteredUser {
-        require(_existsToken(landId), "Land not found");
-        require(ownerOf(landId) == msg.sender, "Only land owner can update");
+    function updateLandDetails(
+        uint256 landId,
+        LandStatus newStatus,
+        uint256 newPriceWei,
+        uint256 rateSenPerEth
+    ) external onlyRegisteredUser onlyLandOwner(landId) {
+
+        if (newStatus == LandStatus.ForSale && lands[landId].status == LandStatus.ForSale) {
+            // Already listed: only the price changes, in the listing's currency
+            _setListingPrice(landId, listingToken[landId], newPriceWei, rateSenPerEth);
+        } else {
+            _changeStatusAsOwner(landId, newStatus, address(0), newPriceWei, rateSenPerEth);
+        }
+    }
+
+    /// @notice Reprice a listing in its current currency (`rateSenPerEth` is ignored for token listings)
+    function updateLandPrice(uint256 landId, uint256 newPriceWei, uint256 rateSenPerEth) external onlyRegisteredUser onlyLandOwner(landId) {
+        require(lands[landId].status == LandStatus.ForSale, LandNotForSale());
+        _setListingPrice(landId, listingToken[landId], newPriceWei, rateSenPerEth);
+    }
+
+    /// @notice Put an owned, verified parcel on the market at `priceWei`
+    function listForSale(uint256 landId, uint256 priceWei, uint256 rateSenPerEth) external onlyRegisteredUser onlyLandOwner(landId) {
+        _changeStatusAsOwner(landId, LandStatus.ForSale, address(0), priceWei, rateSenPerEth);
+    }
+
+    /// @notice Put an owned, verified parcel on the market priced in a whitelisted ERC-20
+    /// @param price  amount in the token's smallest unit
+    function listForSaleInToken(uint256 landId, address token, uint256 price) external onlyRegisteredUser onlyLandOwner(landId) {
+        require(acceptedPaymentTokens[token], PaymentTokenNotAccepted());
+        _changeStatusAsOwner(landId, LandStatus.ForSale, token, price, 0);
+    }
+
+    /// @notice Take a listed parcel off the market (open offers are refunded), or settle a
+    /// freshly purchased (Approved) parcel as Active without listing it
+    /// @dev A pending purchase request must be rejected (or expire) first
+    function delist(uint256 landId) external onlyRegisteredUser onlyLandOwner(landId) {
+        _changeStatusAsOwner(landId, LandStatus.Active, address(0), 0, 0);
+    }
+
+    /// @dev Whether the registry allows a parcel to move from `from` to `to`
+    function _isValidTransition(LandStatus from, LandStatus to) internal pure returns (bool) {
+        if (from == LandStatus.PendingVerification) return to == LandStatus.ForSale || to == LandStatus.Rejected;
+        if (from == LandStatus.Active) return to == LandStatus.ForSale || to == LandStatus.InAuction;
+        if (from == LandStatus.ForSale) {
+            return to == LandStatus.Active || to == LandStatus.Pending_Approval || to == LandStatus.Approved;
+        }
+        if (from == LandStatus.Pending_Approval) return to == LandStatus.ForSale || to == LandStatus.Approved;
+        if (from == LandStatus.Approved) {
+            return to == LandStatus.ForSale || to == LandStatus.Active || to == LandStatus.InAuction;
+        }
+        if (from == LandStatus.InAuction) return to == LandStatus.Approved || to == LandStatus.Active;
+        return false; // Rejected is final
+    }
+
+    /// @dev Transitions an owner may trigger directly; the rest belong to staff or the purchase flow
+    function _isOwnerTransition(LandStatus from, LandStatus to) internal pure returns (bool) {
+        if (to == LandStatus.ForSale) return from == LandStatus.Active || from == LandStatus.Approved;
+        if (to == LandStatus.Active) return from == LandStatus.ForSale || from == LandStatus.Approved;
+        if (to == LandStatus.InAuction) return from == LandStatus.Active || from == LandStatus.Approved;
+        return false;
+    }
+
+    /// @dev Record the asking price in `token` (address(0) = ETH, quoted with its MYR/ETH rate)
+    function _setListingPrice(uint256 landId, address token, uint256 price, uint256 rateSenPerEth) internal {
+        require(price > 0, InvalidPrice());
+        landPrices[landId] = price;
+        listingToken[landId] = token;
+        if (token == address(0)) {
+            require(rateSenPerEth > 0, InvalidRate());
+            listingRateSenPerEth[landId] = rateSenPerEth;
+            emit LandListed(landId, price);
+        } else {
+            // Token listings are priced in MYR directly; no ETH rate applies
+            listingRateSenPerEth[landId] = 0;
+            emit LandListedInToken(landId, token, price);
+        }
+    }
+
+    /// @dev Forget the asking price, its currency and its quote rate
+    function _clearListingPrice(uint256 landId) internal {
+        landPrices[landId] = 0;
+        listingToken[landId] = address(0);
+        listingRateSenPerEth[landId] = 0;
+    }
+
+    /// @dev Single entry point for status changes; reverts on transitions the state machine forbids
+    function _setStatus(uint256 landId, LandStatus to) internal {
+        LandStatus from = lands[landId].status;
+        if (!_isValidTransition(from, to)) revert InvalidStatusTransition(landId, from, to);
+        lands[landId].status = to;
+        emit LandStatusUpdated(landId, to);
+    }
 
-        lands[landId].status = newStatus;
-        landPrices[landId] = newPriceWei;
+    /// @dev List (to ForSale) or take off the market (to Active) on the owner's behalf
+    function _changeStatusAsOwner(
+        uint256 landId,
+        LandStatus to,
+        address token,
+        uint256 price,
+        uint256 rateSenPerEth
+    ) internal {
+        LandStatus from = lands[landId].status;
+        if (!_isOwnerTransition(from, to)) revert InvalidStatusTransition(landId, from, to);
+        require(to != LandStatus.InAuction, UseStartAuction());
+
+        if (to == LandStatus.ForSale) {
+            _setStatus(landId, to);
+            _setListingPrice(landId, token, price, rateSenPerEth);
+        } else {
+            _setStatus(landId, to);
+            _clearListingPrice(landId);
+            if (from == LandStatus.ForSale) {
+                _refundOpenOffers(landId);
+                emit LandDelisted(landId);
+            }
+        }
+    }
+
+    /// @notice Set the deposit and completion rules buyers of this parcel agree to
+    /// @dev Locked while a purchase is pending, so terms cannot change under a buyer
+    function setSaleTerms(
+        uint256 landId,
+        uint16 depositBps,
+        uint32 completionPeriod,
+        bool forfeitOnDefault
+    ) external onlyRegisteredUser onlyLandOwner(landId) {
+        require(lands[landId].status != LandStatus.Pending_Approval, PurchasePending());
+        require(depositBps < 10000, InvalidSaleTerms());
+        require(depositBps == 0 || completionPeriod > 0, InvalidSaleTerms());
+
+        saleTerms[landId] = SaleTerms(depositBps, completionPeriod, forfeitOnDefault);
+        emit SaleTermsUpdated(landId, depositBps, completionPeriod, forfeitOnDefault);
+    }
+
+    /// @notice Stamp duty and registration fee the buyer pays on top of the listing price,
+    /// in the listing's currency
+    function feesDue(uint256 landId) public view returns (uint256 stampDuty, uint256 registrationFee) {
+        return _quoteFees(landPrices[landId], listingToken[landId]);
+    }
 
-        emit LandStatusUpdated(landId, newStatus);
-        emit LandListed(landId, newPriceWei);
+    /// @notice What a buyer must escrow to request the parcel: the deposit, or the full price plus fees without one
+    function amountDueOnRequest(uint256 landId) public view returns (uint256) {
+        uint256 bps = saleTerms[landId].depositBps;
+        return bps == 0 ? landPrices[landId] + _feesTotal(landId) : (landPrices[landId] * bps) / 10000;
     }
 
-    /// @notice Buyer requests to purchase by sending exact ETH
+    /// @notice Buyer requests to purchase, escrowing the deposit (or the full price and fees if the listing has none)
+    /// @dev ETH listings take the amount as msg.value; token listings pull it with
+    /// transferFrom, so the buyer must approve this contract for it first
     function requestToBuy(uint256 landId) external payable onlyRegisteredUser {
-        require(lands[landId].status == LandStatus.ForSale, "Land not for sale");
-        require(msg.value == landPrices[landId], "Incorrect payment amount");
+        require(lands[landId].status == LandStatus.ForSale, LandNotForSale());
+        _requireEligible(landId, msg.sender, listingToken[landId], landPrices[landId]);
+        uint256 due = amountDueOnRequest(landId);
+        _collectPayment(landId, due);
 
+        // Fees come with the full price: now, or with the balance for deposit listings
+        uint256 fees = saleTerms[landId].depositBps == 0 ? _feesTotal(landId) : 0;
+        escrowedFees[landId] = fees;
+        escrowedAmount[landId] = due - fees;
         pendingBuyer[landId] = msg.sender;
-        lands[landId].status = LandStatus.Pending_Approval;
+        purchaseDeadline[landId] = block.timestamp + purchaseRequestWindow;
+        _setStatus(landId, LandStatus.Pending_Approval);
 
-        emit LandStatusUpdated(landId, LandStatus.Pending_Approval);
         emit PurchaseRequested(landId, msg.sender);
     }
 
+    /// @notice Buyer withdraws their purchase request and has the escrow credited back
+    function cancelPurchaseRequest(uint256 landId) external {
+        require(lands[landId].status == LandStatus.Pending_Approval, NoPendingPurchase());
+        require(pendingBuyer[landId] == msg.sender, NotPendingBuyer());
+
+        emit PurchaseCancelled(landId, msg.sender);
+        _refundPendingPurchase(landId);
+    }
+
+    /// @notice Seller declines the pending purchase request, refunding the buyer
+    function rejectPurchaseRequest(uint256 landId) external onlyLandOwner(landId) {
+        require(lands[landId].status == LandStatus.Pending_Approval, NoPendingPurchase());
+
+        emit PurchaseRejected(landId, pendingBuyer[landId]);
+        _refundPendingPurchase(landId);
+    }
+
+    /// @notice Release an expired purchase request; anyone may call, funds go back to the buyer
+    function expirePurchaseRequest(uint256 landId) external {
+        require(lands[landId].status == LandStatus.Pending_Approval, NoPendingPurchase());
+        require(block.timestamp > purchaseDeadline[landId], PurchaseRequestNotExpired());
+
+        emit PurchaseExpired(landId, pendingBuyer[landId]);
+        _refundPendingPurchase(landId);
+    }
+
+    /// @dev Clear the pending purchase, relist the parcel and credit the escrow back to the buyer.
+    /// Once the seller accepted a deposit only the completion deadline can unwind the sale.
+    function _refundPendingPurchase(uint256 landId) internal {
+        require(completionDeadline[landId] == 0, CompletionInProgress());
+        address buyer = pendingBuyer[landId];
+        uint256 amount = escrowedAmount[landId] + escrowedFees[landId];
+
+        _releasePendingPurchase(landId);
+        _credit(buyer, listingToken[landId], amount);
+        emit PurchaseRefunded(landId, buyer, amount);
+    }
+
+    /// @dev Forget the pending buyer and their escrow and put the parcel back on the market
+    function _releasePendingPurchase(uint256 landId) internal {
+        pendingBuyer[landId] = address(0);
+        purchaseDeadline[landId] = 0;
+        escrowedAmount[landId] = 0;
+        escrowedFees[landId] = 0;
+        completionDeadline[landId] = 0;
+        _setStatus(landId, LandStatus.ForSale);
+    }
+
+    /// @dev Fees on a sale at `price`; none until the owner sets a fee schedule.
+    /// ETH prices are valued at the owner-set rate, never the seller's listing rate.
+    function _quoteFees(uint256 price, address token)
+        internal
+        view
+        returns (uint256 stampDuty, uint256 registrationFee)
+    {
+        if (address(landFees) == address(0)) return (0, 0);
+        return landFees.quote(price, token, manualRateSenPerEth);
+    }
+
+    /// @dev Fees on an ETH offer or bid of `amount`, escrowed on top of it when it is placed
+    function _ethFeesOn(uint256 amount) internal view returns (uint256) {
+        (uint256 stampDuty, uint256 registrationFee) = _quoteFees(amount, address(0));
+        return stampDuty + registrationFee;
+    }
+
+    function _feesTotal(uint256 landId) internal view returns (uint256) {
+        (uint256 stampDuty, uint256 registrationFee) = feesDue(landId);
+        return stampDuty + registrationFee;
+    }
+
+    /// @dev Reverts with the eligibility rules' reason if `buyer` may not take the parcel at `price`
+    function _requireEligible(uint256 landId, address buyer, address token, uint256 price) internal view {
+        if (address(landEligibility) == address(0)) return;
+        landEligibility.requireEligible(landId, buyer, token, price);
+    }
+
+    /// @dev Take `amount` from the caller in the listing's currency (msg.value or transferFrom)
+    function _collectPayment(uint256 landId, uint256 amount) internal {
+        address token = listingToken[landId];
+        if (token == address(0)) {
+            require(msg.value == amount, IncorrectPayment());
+        } else {
+            require(msg.value == 0, IncorrectPayment());
+            IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        }
+    }
+
     /// @dev Internal helper to remove a landId from an owner's list
     function _removeLandFromOwner(address owner, uint256 landId) internal {
         uint256[] storage list = ownerToLandIds[owner];
@@ -148,68 +696,387 @@ contract LandRegistry is ERC721URIStorage, Ownable {
         }
     }
 
-    /// @notice Approve sale, transfer ownership, update metadata, and release funds
+    /// @notice Seller accepts the pending request: a fully paid request transfers the parcel now,
+    /// a deposit starts the completion period for the buyer to pay the balance
     function transferLandOwnership(
         uint256 landId,
         address newOwner
         // string calldata newMetadataCID
-    ) external onlyRegisteredUser {
-        address seller = ownerOf(landId);
-        require(seller == msg.sender, "Only owner can approve transfer");
-        require(pendingBuyer[landId] == newOwner, "Buyer mismatch");
+    ) external onlyRegisteredUser onlyLandOwner(landId) {
+        require(pendingBuyer[landId] == newOwner, NotPendingBuyer());
+        require(completionDeadline[landId] == 0, CompletionInProgress());
+        require(block.timestamp <= purchaseDeadline[landId], PurchaseRequestExpired());
+        // Checked again here: attestations or consent may have changed since the request
+        _requireEligible(landId, newOwner, listingToken[landId], landPrices[landId]);
+
+        if (escrowedAmount[landId] == landPrices[landId]) {
+            _completeSale(landId, msg.sender, newOwner, listingToken[landId], landPrices[landId]);
+            return;
+        }
+        uint256 deadline = block.timestamp + saleTerms[landId].completionPeriod;
+        completionDeadline[landId] = deadline;
+        emit DepositAccepted(landId, newOwner, deadline);
+    }
+
+    /// @notice Buyer pays the balance plus fees before the completion deadline; the parcel transfers immediately
+    function payBalance(uint256 landId) external payable {
+        require(pendingBuyer[landId] == msg.sender, NotPendingBuyer());
+        require(completionDeadline[landId] != 0, DepositNotAccepted());
+        require(block.timestamp <= completionDeadline[landId], CompletionDeadlinePassed());
+
+        uint256 balance = landPrices[landId] - escrowedAmount[landId];
+        uint256 fees = _feesTotal(landId);
+        _collectPayment(landId, balance + fees);
+        escrowedFees[landId] = fees;
+        emit BalancePaid(landId, msg.sender, balance);
+
+        _completeSale(landId, ownerOf(landId), msg.sender, listingToken[landId], landPrices[landId]);
+    }
+
+    /// @notice Unwind a sale whose completion deadline passed; anyone may call. The deposit goes
+    /// to the seller or back to the buyer as the listing's terms say, and the parcel is relisted.
+    function enforceCompletionDeadline(uint256 landId) external {
+        uint256 deadline = completionDeadline[landId];
+        require(deadline != 0, DepositNotAccepted());
+        require(block.timestamp > deadline, CompletionDeadlineNotPassed());
+
+        address buyer = pendingBuyer[landId];
+        uint256 deposit = escrowedAmount[landId];
+        bool forfeited = saleTerms[landId].forfeitOnDefault;
+
+        _releasePendingPurchase(landId);
+        _credit(forfeited ? ownerOf(landId) : buyer, listingToken[landId], deposit);
+        emit CompletionDefaulted(landId, buyer, forfeited);
+    }
+
+    /// @notice Escrow an offer of `amount` on a listed parcel; send it plus the fees on it
+    /// @dev Offers are ETH only, so they are not available on token listings
+    function makeOffer(uint256 landId, uint256 amount) external payable onlyRegisteredUser {
+        LandStatus status = lands[landId].status;
+        require(
+            status == LandStatus.ForSale || status == LandStatus.Pending_Approval,
+            LandNotForSale()
+        );
+        require(listingToken[landId] == address(0), OffersAreEthOnly());
+        require(ownerOf(landId) != msg.sender, OwnerCannotBuy());
+        require(amount > 0, InvalidPrice());
+        uint256 fees = _ethFeesOn(amount);
+        require(msg.value == amount + fees, IncorrectPayment());
+
+        uint256 offerId = _offers[landId].length;
+        _offers[landId].push(Offer(msg.sender, amount, fees, true));
+        emit OfferMade(landId, offerId, msg.sender, amount);
+    }
+
+    /// @notice Buyer withdraws one of their active offers and has the escrow credited back
+    function withdrawOffer(uint256 landId, uint256 offerId) external {
+        require(offerId < _offers[landId].length, OfferNotActive());
+        Offer storage offer = _offers[landId][offerId];
+        require(offer.buyer == msg.sender, NotOfferBuyer());
+        require(offer.active, OfferNotActive());
+
+        offer.active = false;
+        _credit(msg.sender, address(0), offer.amount + offer.fees);
+        emit OfferWithdrawn(landId, offerId, msg.sender, offer.amount + offer.fees);
+    }
+
+    /// @notice Seller sells to one offer for its full amount; every other active offer is refunded
+    /// @dev A pending fixed-price purchase request is rejected and refunded first
+    function acceptOffer(uint256 landId, uint256 offerId) external onlyRegisteredUser onlyLandOwner(landId) {
+        require(offerId < _offers[landId].length, OfferNotActive());
+        Offer storage offer = _offers[landId][offerId];
+        require(offer.active, OfferNotActive());
+        _requireEligible(landId, offer.buyer, address(0), offer.amount);
+
+        if (lands[landId].status == LandStatus.Pending_Approval) {
+            emit PurchaseRejected(landId, pendingBuyer[landId]);
+            _refundPendingPurchase(landId);
+        }
+        require(lands[landId].status == LandStatus.ForSale, LandNotForSale());
 
-        // Update owner-to-land mapping
-        _removeLandFromOwner(seller, landId);
-        ownerToLandIds[newOwner].push(landId);
+        offer.active = false;
+        escrowedFees[landId] = offer.fees;
+        emit OfferAccepted(landId, offerId, offer.buyer, offer.amount);
+        _completeSale(landId, msg.sender, offer.buyer, address(0), offer.amount);
+    }
+
+    /// @notice Seller sells to a buyer's signed offer; the amount plus fees is pulled from the buyer in `offer.token`
+    /// @dev As with acceptOffer, a pending purchase request is rejected and refunded first
+    function acceptSignedOffer(
+        SignedOffer calldata offer,
+        bytes calldata signature
+    ) external onlyRegisteredUser onlyLandOwner(offer.landId) {
+        require(block.timestamp <= offer.expiry, OfferExpired());
+        require(!usedOfferNonces[offer.buyer][offer.nonce], OfferNonceUsed());
+        require(acceptedPaymentTokens[offer.token], PaymentTokenNotAccepted());
+        require(offer.amount > 0, InvalidPrice());
+        require(roles[offer.buyer] == Role.User, NotRegisteredUser());
+        require(offer.buyer != msg.sender, OwnerCannotBuy());
 
-        // Transfer the NFT
-        _transfer(seller, newOwner, landId);
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    SIGNED_OFFER_TYPEHASH,
+                    offer.landId,
+                    offer.buyer,
+                    offer.token,
+                    offer.amount,
+                    offer.expiry,
+                    offer.nonce
+                )
+            )
+        );
+        (address signer, ECDSA.RecoverError recoverError, ) = ECDSA.tryRecover(digest, signature);
+        require(recoverError == ECDSA.RecoverError.NoError && signer == offer.buyer, InvalidSignature());
+        usedOfferNonces[offer.buyer][offer.nonce] = true;
+
+        uint256 landId = offer.landId;
+        _requireEligible(landId, offer.buyer, offer.token, offer.amount);
+        if (lands[landId].status == LandStatus.Pending_Approval) {
+            emit PurchaseRejected(landId, pendingBuyer[landId]);
+            _refundPendingPurchase(landId);
+        }
+        require(lands[landId].status == LandStatus.ForSale, LandNotForSale());
+
+        (uint256 stampDuty, uint256 registrationFee) = _quoteFees(offer.amount, offer.token);
+        escrowedFees[landId] = stampDuty + registrationFee;
+        IERC20(offer.token).safeTransferFrom(offer.buyer, address(this), offer.amount + stampDuty + registrationFee);
+        emit SignedOfferAccepted(landId, offer.buyer, offer.token, offer.amount, offer.nonce);
+        _completeSale(landId, msg.sender, offer.buyer, offer.token, offer.amount);
+    }
+
+    /// @notice Buyer invalidates a signed offer (or reserves a nonce) so it can never be accepted
+    function cancelSignedOffer(uint256 nonce) external {
+        require(!usedOfferNonces[msg.sender][nonce], OfferNonceUsed());
+        usedOfferNonces[msg.sender][nonce] = true;
+        emit SignedOfferCancelled(msg.sender, nonce);
+    }
+
+    /// @notice Put an owned Active/Approved parcel up for auction until `endTime`
+    function startAuction(
+        uint256 landId,
+        uint256 reservePrice,
+        uint256 minIncrement,
+        uint256 endTime
+    ) external onlyRegisteredUser onlyLandOwner(landId) {
+        LandStatus from = lands[landId].status;
+        if (!_isOwnerTransition(from, LandStatus.InAuction)) {
+            revert InvalidStatusTransition(landId, from, LandStatus.InAuction);
+        }
+        require(reservePrice > 0 && minIncrement > 0, InvalidPrice());
+        require(endTime > block.timestamp, InvalidEndTime());
+
+        auctions[landId] = Auction(reservePrice, minIncrement, endTime, address(0), 0, 0);
+        _setStatus(landId, LandStatus.InAuction);
+        emit AuctionStarted(landId, reservePrice, minIncrement, endTime);
+    }
+
+    /// @notice Outbid the current highest bidder with `amount`, sending it plus the fees on it;
+    /// their escrowed bid and fees are credited back to them
+    function bid(uint256 landId, uint256 amount) external payable onlyRegisteredUser {
+        require(lands[landId].status == LandStatus.InAuction, LandNotInAuction());
+        Auction storage auction = auctions[landId];
+        require(block.timestamp < auction.endTime, AuctionEnded());
+        require(ownerOf(landId) != msg.sender, OwnerCannotBuy());
+        // Checked at bid time so an ineligible winner can never block settlement
+        _requireEligible(landId, msg.sender, address(0), amount);
+
+        address previousBidder = auction.highestBidder;
+        if (previousBidder == address(0)) {
+            require(amount >= auction.reservePrice, BidTooLow());
+        } else {
+            require(amount >= auction.highestBid + auction.minIncrement, BidTooLow());
+            _credit(previousBidder, address(0), auction.highestBid + auction.highestBidFees);
+        }
+        // Fees are fixed now, so a later rate or schedule change cannot alter what settlement pays out
+        uint256 fees = _ethFeesOn(amount);
+        require(msg.value == amount + fees, IncorrectPayment());
+
+        auction.highestBidder = msg.sender;
+        auction.highestBid = amount;
+        auction.highestBidFees = fees;
+        emit BidPlaced(landId, msg.sender, amount);
+    }
+
+    /// @notice Close an ended auction; anyone may call. The parcel goes to the highest
+    /// bidder, the bid to the seller and its fees to the treasury, or back to Active if nobody bid.
+    function settleAuction(uint256 landId) external {
+        require(lands[landId].status == LandStatus.InAuction, LandNotInAuction());
+        Auction memory auction = auctions[landId];
+        require(block.timestamp >= auction.endTime, AuctionNotEnded());
+        delete auctions[landId];
+
+        if (auction.highestBidder == address(0)) {
+            emit AuctionCancelled(landId);
+            _setStatus(landId, LandStatus.Active);
+            return;
+        }
+        escrowedFees[landId] = auction.highestBidFees;
+        emit AuctionSettled(landId, auction.highestBidder, auction.highestBid);
+        _completeSale(landId, ownerOf(landId), auction.highestBidder, address(0), auction.highestBid);
+    }
+
+    /// @notice Seller withdraws the parcel from auction before anyone has bid
+    function cancelAuction(uint256 landId) external onlyLandOwner(landId) {
+        require(lands[landId].status == LandStatus.InAuction, LandNotInAuction());
+        require(auctions[landId].highestBidder == address(0), AuctionHasBids());
+
+        delete auctions[landId];
+        emit AuctionCancelled(landId);
+        _setStatus(landId, LandStatus.Active);
+    }
+
+    /// @notice Unwind an auction nobody settled within AUCTION_SETTLEMENT_PERIOD of its end, e.g. because
+    /// settlement keeps reverting; anyone may call. The highest bid and its fees go back to the bidder
+    /// and the parcel returns to Active.
+    function refundAuction(uint256 landId) external {
+        require(lands[landId].status == LandStatus.InAuction, LandNotInAuction());
+        Auction memory auction = auctions[landId];
+        require(block.timestamp >= auction.endTime + AUCTION_SETTLEMENT_PERIOD, SettlementPeriodNotOver());
+        delete auctions[landId];
+
+        if (auction.highestBidder != address(0)) {
+            _credit(auction.highestBidder, address(0), auction.highestBid + auction.highestBidFees);
+        }
+        emit AuctionCancelled(landId);
+        _setStatus(landId, LandStatus.Active);
+    }
+
+    /// @notice All offers ever made on a parcel; the array index is the offer ID
+    function getOffers(uint256 landId) external view returns (Offer[] memory) {
+        return _offers[landId];
+    }
+
+    /// @dev Move the parcel to `buyer`, reset sale state, refund open offers and credit the seller
+    function _completeSale(uint256 landId, address seller, address buyer, address token, uint256 price) internal {
+        // Transfer the NFT (the owner index is updated in _update)
+        _transfer(seller, buyer, landId);
 
         // Update metadata CID
         // lands[landId].metadataCID = newMetadataCID;
         // _setTokenURI(landId, newMetadataCID);
 
         // Set status to Sold
-        lands[landId].status = LandStatus.Approved;
-        emit LandStatusUpdated(landId, LandStatus.Approved);
+        _setStatus(landId, LandStatus.Approved);
 
-        // Capture price and reset sale state
-        uint256 price = landPrices[landId];
+        // Reset sale state; the new owner sets their own sale terms
         pendingBuyer[landId] = address(0);
-        landPrices[landId] = 0;
+        purchaseDeadline[landId] = 0;
+        escrowedAmount[landId] = 0;
+        completionDeadline[landId] = 0;
+        delete saleTerms[landId];
+        _clearListingPrice(landId);
 
-        // Payout seller
-        payable(seller).transfer(price);
+        _refundOpenOffers(landId);
 
-        emit LandOwnershipTransferred(landId, newOwner);
+        // Fees escrowed with the price go to the treasury, or back to the buyer if the
+        // owner turned fees off while the purchase was pending
+        uint256 fees = escrowedFees[landId];
+        if (fees > 0) {
+            escrowedFees[landId] = 0;
+            if (address(landFees) == address(0)) {
+                _credit(buyer, token, fees);
+                emit PurchaseRefunded(landId, buyer, fees);
+            } else {
+                address treasury = landFees.treasury();
+                _credit(treasury, token, fees);
+                emit FeesCollected(landId, treasury, fees);
+            }
+        }
+
+        // Credit the seller; proceeds are collected with withdraw() / withdrawToken()
+        _credit(seller, token, price);
+
+        emit LandOwnershipTransferred(landId, buyer);
+    }
+
+    /// @dev Credit back every still-active offer on a parcel and clear its offer book
+    function _refundOpenOffers(uint256 landId) internal {
+        Offer[] storage offers = _offers[landId];
+        for (uint256 i = 0; i < offers.length; i++) {
+            if (!offers[i].active) continue;
+            offers[i].active = false;
+            uint256 refund = offers[i].amount + offers[i].fees;
+            _credit(offers[i].buyer, address(0), refund);
+            emit OfferRefunded(landId, i, offers[i].buyer, refund);
+        }
+        delete _offers[landId];
     }
 
+    /// @notice Pay out everything credited to the caller (sale proceeds and refunds)
+    function withdraw() external {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, NothingToWithdraw());
+
+        pendingWithdrawals[msg.sender] = 0;
+        (bool ok, ) = payable(msg.sender).call{value: amount}("");
+        require(ok, WithdrawalFailed());
+
+        emit Withdrawal(msg.sender, amount);
+    }
+
+    /// @notice Pay out the caller's proceeds and refunds in `token`
+    function withdrawToken(address token) external {
+        uint256 amount = pendingTokenWithdrawals[msg.sender][token];
+        require(amount > 0, NothingToWithdraw());
+
+        pendingTokenWithdrawals[msg.sender][token] = 0;
+        IERC20(token).safeTransfer(msg.sender, amount);
+
+        emit TokenWithdrawal(msg.sender, token, amount);
+    }
+
+    /// @dev Record ETH (token = address(0)) or tokens owed to `account` instead of pushing them during another flow
+    function _credit(address account, address token, uint256 amount) internal {
+        if (token == address(0)) {
+            pendingWithdrawals[account] += amount;
+            emit PaymentCredited(account, amount);
+        } else {
+            pendingTokenWithdrawals[account][token] += amount;
+            emit TokenPaymentCredited(account, token, amount);
+        }
+    }
 
     /// @notice Return token URI pointing to IPFS CID
     function tokenURI(uint256 tokenId) public view override returns (string memory) {
-        require(_existsToken(tokenId), "Token does not exist");
+        require(_existsToken(tokenId), LandNotFound());
         return string(abi.encodePacked("ipfs://", lands[tokenId].metadataCID));
     }
 
-    function _existsToken(uint256 tokenId) internal view returns (bool) {
-        return _ownerOf(tokenId) != address(0);
-    }
+    /// @dev Every mint and transfer passes through here, including plain ERC-721
+    /// transferFrom/safeTransferFrom, so ownerToLandIds always matches ownerOf.
+    /// Direct transfers (auth set) are only allowed for verified parcels with no escrowed payment
+    /// tied to them; unverified and rejected titles can never change hands.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address from) {
+        if (auth != address(0)) {
+            LandStatus status = lands[tokenId].status;
+            require(status == LandStatus.Active || status == LandStatus.Approved, LandLocked());
+        }
 
-    function _isApprovedOrOwner(address spender, uint256 tokenId) internal view returns (bool) {
-        address ow = ownerOf(tokenId);
-        return (spender == ow || getApproved(tokenId) == spender || isApprovedForAll(ow, spender));
-    }
+        from = super._update(to, tokenId, auth);
 
-    /// @notice Fetch land data and current owner
-    function getLand(uint256 landId) external view returns (Land memory land, address owner, string memory publicCID) {
-        require(_existsToken(landId), "Land does not exist");
-        return (lands[landId], ownerOf(landId), getPublicCID(landId));
+        if (from != address(0)) _removeLandFromOwner(from, tokenId);
+        if (to != address(0)) ownerToLandIds[to].push(tokenId);
+    }
 
+    function _existsToken(uint256 tokenId) internal view returns (bool) {
+        return _ownerOf(tokenId) != address(0);
     }
 
-    /// @notice List all land IDs owned by `owner`
-    function getOwnedLands(address owner) external view returns (uint256[] memory) {
-        return ownerToLandIds[owner];
+    /// @notice Return the IDs of all parcels waiting for staff verification
+    function getPendingVerificationIds() external view returns (uint256[] memory) {
+        uint256 total = _tokenIdCounter - 1;
+        uint256 count = 0;
+        for (uint256 id = 1; id <= total; id++) {
+            if (lands[id].status == LandStatus.PendingVerification) count++;
+        }
+
+        uint256[] memory ids = new uint256[](count);
+        uint256 j = 0;
+        for (uint256 id = 1; id <= total; id++) {
+            if (lands[id].status == LandStatus.PendingVerification) ids[j++] = id;
+        }
+        return ids;
     }
 
     /// @notice Return all minted land IDs
@@ -221,4 +1088,79 @@ contract LandRegistry is ERC721URIStorage, Ownable {
         }
         return ids;
     }
+
+    /// @notice List all land IDs owned by `owner`
+    function getOwnedLands(address owner) external view returns (uint256[] memory) {
+        return ownerToLandIds[owner];
+    }
+
+    /// @notice List every appointed staff member
+    /// @dev Not owner-only: the roles mapping is public anyway, and the admin console reads
+    /// this through a read-only provider whose eth_call has no `from`
+    function getStaffMembers() external view returns (address[] memory) {
+        return _staffMembers;
+    }
+
+    /// @notice Registry totals for the admin dashboard
+    /// @return totalLands     number of minted parcels
+    /// @return userCount      number of registered users
+    /// @return staffCount     number of appointed staff
+    /// @return landsByStatus  parcel count indexed by LandStatus
+    /// @return escrowBalance  ETH currently held by the contract
+    function getRegistryStats()
+        external
+        view
+        onlyOwner
+        returns (
+            uint256 totalLands,
+            uint256 userCount,
+            uint256 staffCount,
+            uint256[] memory landsByStatus,
+            uint256 escrowBalance
+        )
+    {
+        totalLands = _tokenIdCounter - 1;
+        landsByStatus = new uint256[](uint256(type(LandStatus).max) + 1);
+        for (uint256 id = 1; id <= totalLands; id++) {
+            landsByStatus[uint256(lands[id].status)]++;
+        }
+        return (totalLands, totalUsers, _staffMembers.length, landsByStatus, address(this).balance);
+    }
+
+    /// @notice Parcels `offset + 1` .. `offset + limit` in one call, so list views avoid a request per parcel
+    /// @return page   parcel details; shorter than `limit` on the last page, empty past the end
+    /// @return total  number of minted parcels
+    /// @dev Page through this to read every parcel; there is no unbounded getAllLandDetails,
+    /// which was dropped to keep the registry under the contract size limit
+    function getLandsPage(uint256 offset, uint256 limit)
+        external
+        view
+        returns (LandDetails[] memory page, uint256 total)
+    {
+        total = _tokenIdCounter - 1;
+        if (offset >= total) return (new LandDetails[](0), total);
+
+        uint256 end = offset + limit > total ? total : offset + limit;
+        page = new LandDetails[](end - offset);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _landDetails(offset + i + 1);
+        }
+    }
+
+    function _landDetails(uint256 id) internal view returns (LandDetails memory) {
+        return LandDetails(
+            lands[id],
+            ownerOf(id),
+            landToPublicCID[id],
+            landPrices[id],
+            listingToken[id],
+            listingRateSenPerEth[id],
+            pendingBuyer[id],
+            purchaseDeadline[id],
+            escrowedAmount[id],
+            completionDeadline[id],
+            verifiedBy[id],
+            rejectionReasons[id]
+        );
+    }
 }
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice MYR stablecoin stand-in for local development (1 MYRT = RM 1)
+/// @dev Anyone can mint; never deploy this outside a test network
+contract MockMYR is ERC20 {
+    constructor() ERC20("Mock Ringgit", "MYRT") {}
+
+    /// @notice 2 decimals, so one token unit is one sen
+    function decimals() public pure override returns (uint8) {
+        return 2;
+    }
+
+    /// @notice Faucet: mint `amount` (in sen) to `to`
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -2,7 +2,18 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    version: "0.8.28",
+    // LandRegistry is close to the 24 KB contract size limit: optimize for
+    // deployed size (runs: 1) and use the IR pipeline, which packs it tighter.
+    // Cancun's PUSH0 and MCOPY shrink it further; Hardhat Network and current
+    // testnets and mainnet all run Cancun or later.
+    settings: {
+      optimizer: { enabled: true, runs: 1 },
+      viaIR: true,
+      evmVersion: "cancun",
+    },
+  },
 };
 
 export default config;
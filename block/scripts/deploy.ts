@@ -1,6 +1,16 @@
 import { ethers } from "hardhat";
 
+// Flat land office registration fee charged on every transfer, in sen (RM 100)
+const REGISTRATION_FEE_SEN = 10_000n;
+
 async function main() {
+  // ETH sales are charged fees at the owner-set rate, and the registry refuses to turn
+  // fees on without one, so fail before deploying anything
+  if (!process.env.MANUAL_RATE_SEN_PER_ETH) {
+    throw new Error("Set MANUAL_RATE_SEN_PER_ETH (MYR/ETH in sen per ETH, e.g. 1500000 for RM 15,000)");
+  }
+  const manualRate = BigInt(process.env.MANUAL_RATE_SEN_PER_ETH);
+
   const [deployer] = await ethers.getSigners();
   console.log("🧑 Deployer address:", deployer.address);
 
@@ -11,6 +21,40 @@ async function main() {
   const deployedAddress = await contract.getAddress();
 
   console.log("✅ LandRegistry deployed at:", deployedAddress);
+
+  // Stamp duty and registration fees go to TREASURY_ADDRESS, or the deployer if unset
+  const treasury = process.env.TREASURY_ADDRESS ?? deployer.address;
+  const LandFees = await ethers.getContractFactory("LandFees");
+  const fees = await LandFees.deploy(treasury, REGISTRATION_FEE_SEN);
+  await fees.waitForDeployment();
+  const feesAddress = await fees.getAddress();
+
+  await (await contract.setManualRate(manualRate)).wait();
+  console.log("✅ Manual MYR/ETH rate set to", manualRate.toString(), "sen per ETH");
+
+  await (await contract.setLandFees(feesAddress)).wait();
+  console.log("✅ LandFees deployed at:", feesAddress, "treasury:", treasury);
+
+  // Title restrictions and buyer attestations, maintained by staff
+  const LandEligibility = await ethers.getContractFactory("LandEligibility");
+  const eligibility = await LandEligibility.deploy(deployedAddress);
+  await eligibility.waitForDeployment();
+  const eligibilityAddress = await eligibility.getAddress();
+
+  await (await contract.setLandEligibility(eligibilityAddress)).wait();
+  console.log("✅ LandEligibility deployed at:", eligibilityAddress);
+
+  // Local networks get a MYR stablecoin stand-in that sellers can price parcels in
+  const { chainId } = await ethers.provider.getNetwork();
+  if (chainId === 31337n) {
+    const MockMYR = await ethers.getContractFactory("MockMYR");
+    const token = await MockMYR.deploy();
+    await token.waitForDeployment();
+    const tokenAddress = await token.getAddress();
+
+    await (await contract.setPaymentTokenAccepted(tokenAddress, true)).wait();
+    console.log("✅ MockMYR deployed and accepted at:", tokenAddress);
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,376 @@
+// Escrow, deposit, offer, auction and fee flows against a fresh registry on Hardhat Network.
+// `npx hardhat test`
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { LandRegistry } from "../typechain-types";
+
+const { parseEther, ZeroAddress } = ethers;
+
+// RM 10,000 per ETH keeps the fee arithmetic exact: RM 100 = 0.01 ETH
+const RATE_SEN_PER_ETH = 1_000_000n;
+const REGISTRATION_FEE_SEN = 10_000n;
+const PRICE = parseEther("4"); // RM 40,000
+const DAY = 24 * 60 * 60;
+
+// Mirrors LandRegistry.LandStatus
+const Status = { Active: 0n, ForSale: 1n, PendingApproval: 2n, Approved: 3n, InAuction: 6n };
+
+// Stamp duty at 1% below RM 100,000 plus the flat registration fee
+function ethFees(amount: bigint) {
+  return amount / 100n + parseEther("0.01");
+}
+
+async function statusOf(registry: LandRegistry, landId: bigint) {
+  const [page] = await registry.getLandsPage(landId - 1n, 1n);
+  return page[0].land.status;
+}
+
+async function deployRegistryFixture() {
+  const [owner, seller, buyer, otherBuyer, treasury] = await ethers.getSigners();
+
+  const registry = await ethers.deployContract("LandRegistry");
+  const fees = await ethers.deployContract("LandFees", [treasury.address, REGISTRATION_FEE_SEN]);
+  await registry.setManualRate(RATE_SEN_PER_ETH);
+  await registry.setLandFees(await fees.getAddress());
+
+  for (const account of [seller, buyer, otherBuyer]) {
+    await registry.connect(account).registerUserWithCID("user-cid");
+  }
+
+  // Land IDs start at 1; approval lists the parcel at its asking price
+  const landId = 1n;
+  await registry.connect(seller).registerLand(seller.address, "metadata-cid", "public-cid", PRICE, RATE_SEN_PER_ETH);
+  await registry.approveLandVerification(landId);
+
+  return { registry, fees, owner, seller, buyer, otherBuyer, treasury, landId };
+}
+
+describe("LandRegistry", function () {
+  describe("fee quoting", function () {
+    it("quotes stamp duty and the registration fee at the manual rate", async function () {
+      const { registry, landId } = await loadFixture(deployRegistryFixture);
+
+      const [stampDuty, registrationFee] = await registry.feesDue(landId);
+      expect(stampDuty).to.equal(parseEther("0.04"));
+      expect(registrationFee).to.equal(parseEther("0.01"));
+      expect(await registry.amountDueOnRequest(landId)).to.equal(PRICE + ethFees(PRICE));
+    });
+
+    it("charges each stamp duty tier on its own slice", async function () {
+      const { fees } = await loadFixture(deployRegistryFixture);
+
+      // RM 200,000: 1% of the first RM 100,000 and 2% of the rest
+      const [stampDuty] = await fees.quote(parseEther("20"), ZeroAddress, RATE_SEN_PER_ETH);
+      expect(stampDuty).to.equal(parseEther("0.3"));
+    });
+
+    it("refuses to quote ETH fees at rate 0", async function () {
+      const { fees } = await loadFixture(deployRegistryFixture);
+
+      await expect(fees.quote(PRICE, ZeroAddress, 0n)).to.be.revertedWithCustomError(fees, "InvalidRate");
+    });
+
+    it("refuses to turn fees on before the manual rate is set", async function () {
+      const { fees } = await loadFixture(deployRegistryFixture);
+      const registry = await ethers.deployContract("LandRegistry");
+
+      await expect(registry.setLandFees(await fees.getAddress())).to.be.revertedWithCustomError(
+        registry,
+        "InvalidRate"
+      );
+      await expect(registry.setManualRate(0n)).to.be.revertedWithCustomError(registry, "InvalidRate");
+      await expect(registry.setLandFees(ZeroAddress)).to.emit(registry, "LandFeesUpdated");
+    });
+  });
+
+  describe("purchase escrow", function () {
+    it("requires the price plus fees", async function () {
+      const { registry, buyer, landId } = await loadFixture(deployRegistryFixture);
+
+      await expect(
+        registry.connect(buyer).requestToBuy(landId, { value: PRICE })
+      ).to.be.revertedWithCustomError(registry, "IncorrectPayment");
+    });
+
+    it("pays the seller the price and the treasury the fees on acceptance", async function () {
+      const { registry, seller, buyer, treasury, landId } = await loadFixture(deployRegistryFixture);
+
+      await registry.connect(buyer).requestToBuy(landId, { value: PRICE + ethFees(PRICE) });
+      expect(await statusOf(registry, landId)).to.equal(Status.PendingApproval);
+
+      await expect(registry.connect(seller).transferLandOwnership(landId, buyer.address))
+        .to.emit(registry, "LandOwnershipTransferred")
+        .withArgs(landId, buyer.address);
+      expect(await registry.ownerOf(landId)).to.equal(buyer.address);
+      expect(await registry.pendingWithdrawals(seller.address)).to.equal(PRICE);
+      expect(await registry.pendingWithdrawals(treasury.address)).to.equal(ethFees(PRICE));
+
+      await expect(registry.connect(seller).withdraw()).to.changeEtherBalances(
+        [registry, seller],
+        [-PRICE, PRICE]
+      );
+    });
+
+    it("refunds the whole escrow when the buyer cancels", async function () {
+      const { registry, buyer, landId } = await loadFixture(deployRegistryFixture);
+      const escrow = PRICE + ethFees(PRICE);
+
+      await registry.connect(buyer).requestToBuy(landId, { value: escrow });
+      await expect(registry.connect(buyer).cancelPurchaseRequest(landId))
+        .to.emit(registry, "PurchaseRefunded")
+        .withArgs(landId, buyer.address, escrow);
+      expect(await statusOf(registry, landId)).to.equal(Status.ForSale);
+
+      await expect(registry.connect(buyer).withdraw()).to.changeEtherBalance(buyer, escrow);
+      await expect(registry.connect(buyer).withdraw()).to.be.revertedWithCustomError(
+        registry,
+        "NothingToWithdraw"
+      );
+    });
+
+    it("lets anyone release a request the seller never answered", async function () {
+      const { registry, buyer, otherBuyer, landId } = await loadFixture(deployRegistryFixture);
+      const escrow = PRICE + ethFees(PRICE);
+
+      await registry.connect(buyer).requestToBuy(landId, { value: escrow });
+      await expect(registry.connect(otherBuyer).expirePurchaseRequest(landId)).to.be.revertedWithCustomError(
+        registry,
+        "PurchaseRequestNotExpired"
+      );
+
+      await time.increase(7 * DAY + 1);
+      await registry.connect(otherBuyer).expirePurchaseRequest(landId);
+      expect(await registry.pendingWithdrawals(buyer.address)).to.equal(escrow);
+    });
+  });
+
+  describe("deposits", function () {
+    const DEPOSIT = PRICE / 10n;
+    const COMPLETION_PERIOD = 30 * DAY;
+
+    async function acceptedDepositFixture(forfeitOnDefault: boolean) {
+      const fixture = await deployRegistryFixture();
+      const { registry, seller, buyer, landId } = fixture;
+
+      await registry.connect(seller).setSaleTerms(landId, 1000, COMPLETION_PERIOD, forfeitOnDefault);
+      expect(await registry.amountDueOnRequest(landId)).to.equal(DEPOSIT);
+      await registry.connect(buyer).requestToBuy(landId, { value: DEPOSIT });
+      await expect(registry.connect(seller).transferLandOwnership(landId, buyer.address)).to.emit(
+        registry,
+        "DepositAccepted"
+      );
+      return fixture;
+    }
+    const forfeitingFixture = () => acceptedDepositFixture(true);
+    const refundingFixture = () => acceptedDepositFixture(false);
+
+    it("completes when the buyer pays the balance plus fees", async function () {
+      const { registry, seller, buyer, treasury, landId } = await loadFixture(forfeitingFixture);
+
+      await registry.connect(buyer).payBalance(landId, { value: PRICE - DEPOSIT + ethFees(PRICE) });
+      expect(await registry.ownerOf(landId)).to.equal(buyer.address);
+      expect(await registry.pendingWithdrawals(seller.address)).to.equal(PRICE);
+      expect(await registry.pendingWithdrawals(treasury.address)).to.equal(ethFees(PRICE));
+
+      // The new owner starts from default terms
+      const terms = await registry.saleTerms(landId);
+      expect(terms.depositBps).to.equal(0n);
+    });
+
+    it("cannot be cancelled once the seller accepted the deposit", async function () {
+      const { registry, buyer, landId } = await loadFixture(forfeitingFixture);
+
+      await expect(registry.connect(buyer).cancelPurchaseRequest(landId)).to.be.revertedWithCustomError(
+        registry,
+        "CompletionInProgress"
+      );
+    });
+
+    it("forfeits the deposit to the seller after a missed deadline", async function () {
+      const { registry, seller, buyer, otherBuyer, landId } = await loadFixture(forfeitingFixture);
+
+      await time.increase(COMPLETION_PERIOD + 1);
+      await expect(registry.connect(buyer).payBalance(landId, { value: PRICE - DEPOSIT + ethFees(PRICE) }))
+        .to.be.revertedWithCustomError(registry, "CompletionDeadlinePassed");
+
+      await expect(registry.connect(otherBuyer).enforceCompletionDeadline(landId))
+        .to.emit(registry, "CompletionDefaulted")
+        .withArgs(landId, buyer.address, true);
+      expect(await registry.pendingWithdrawals(seller.address)).to.equal(DEPOSIT);
+      expect(await registry.pendingWithdrawals(buyer.address)).to.equal(0n);
+      expect(await statusOf(registry, landId)).to.equal(Status.ForSale);
+    });
+
+    it("refunds the deposit after a missed deadline when the terms say so", async function () {
+      const { registry, seller, buyer, landId } = await loadFixture(refundingFixture);
+
+      await expect(registry.enforceCompletionDeadline(landId)).to.be.revertedWithCustomError(
+        registry,
+        "CompletionDeadlineNotPassed"
+      );
+      await time.increase(COMPLETION_PERIOD + 1);
+      await registry.enforceCompletionDeadline(landId);
+      expect(await registry.pendingWithdrawals(buyer.address)).to.equal(DEPOSIT);
+      expect(await registry.pendingWithdrawals(seller.address)).to.equal(0n);
+    });
+  });
+
+  describe("offers", function () {
+    const OFFER = parseEther("3");
+    const LOWER_OFFER = parseEther("2");
+
+    it("escrows the fees on top of the offer", async function () {
+      const { registry, buyer, landId } = await loadFixture(deployRegistryFixture);
+
+      await expect(
+        registry.connect(buyer).makeOffer(landId, OFFER, { value: OFFER })
+      ).to.be.revertedWithCustomError(registry, "IncorrectPayment");
+
+      await registry.connect(buyer).makeOffer(landId, OFFER, { value: OFFER + ethFees(OFFER) });
+      const [offer] = await registry.getOffers(landId);
+      expect(offer.amount).to.equal(OFFER);
+      expect(offer.fees).to.equal(ethFees(OFFER));
+    });
+
+    it("sells at the accepted offer and refunds the others", async function () {
+      const { registry, seller, buyer, otherBuyer, treasury, landId } = await loadFixture(deployRegistryFixture);
+
+      await registry.connect(buyer).makeOffer(landId, OFFER, { value: OFFER + ethFees(OFFER) });
+      await registry
+        .connect(otherBuyer)
+        .makeOffer(landId, LOWER_OFFER, { value: LOWER_OFFER + ethFees(LOWER_OFFER) });
+
+      await expect(registry.connect(seller).acceptOffer(landId, 0n))
+        .to.emit(registry, "OfferAccepted")
+        .withArgs(landId, 0n, buyer.address, OFFER);
+      expect(await registry.ownerOf(landId)).to.equal(buyer.address);
+      expect(await registry.pendingWithdrawals(seller.address)).to.equal(OFFER);
+      expect(await registry.pendingWithdrawals(treasury.address)).to.equal(ethFees(OFFER));
+      expect(await registry.pendingWithdrawals(otherBuyer.address)).to.equal(LOWER_OFFER + ethFees(LOWER_OFFER));
+      expect(await registry.getOffers(landId)).to.be.empty;
+    });
+
+    it("refunds the offer and its fees when the buyer withdraws it", async function () {
+      const { registry, buyer, otherBuyer, landId } = await loadFixture(deployRegistryFixture);
+      const escrow = OFFER + ethFees(OFFER);
+
+      await registry.connect(buyer).makeOffer(landId, OFFER, { value: escrow });
+      await expect(registry.connect(otherBuyer).withdrawOffer(landId, 0n)).to.be.revertedWithCustomError(
+        registry,
+        "NotOfferBuyer"
+      );
+
+      await expect(registry.connect(buyer).withdrawOffer(landId, 0n))
+        .to.emit(registry, "OfferWithdrawn")
+        .withArgs(landId, 0n, buyer.address, escrow);
+      await expect(registry.connect(buyer).withdrawOffer(landId, 0n)).to.be.revertedWithCustomError(
+        registry,
+        "OfferNotActive"
+      );
+      await expect(registry.connect(buyer).withdraw()).to.changeEtherBalance(buyer, escrow);
+    });
+
+    it("refunds open offers when the seller delists", async function () {
+      const { registry, seller, buyer, landId } = await loadFixture(deployRegistryFixture);
+
+      await registry.connect(buyer).makeOffer(landId, OFFER, { value: OFFER + ethFees(OFFER) });
+      await registry.connect(seller).delist(landId);
+      expect(await registry.pendingWithdrawals(buyer.address)).to.equal(OFFER + ethFees(OFFER));
+    });
+  });
+
+  describe("auctions", function () {
+    const RESERVE = parseEther("1");
+    const INCREMENT = parseEther("0.1");
+    const HIGHER_BID = parseEther("1.5");
+
+    async function auctionFixture() {
+      const fixture = await deployRegistryFixture();
+      const { registry, seller, landId } = fixture;
+
+      // Auctions start from an unlisted parcel
+      await registry.connect(seller).delist(landId);
+      const endTime = (await time.latest()) + DAY;
+      await registry.connect(seller).startAuction(landId, RESERVE, INCREMENT, endTime);
+      return { ...fixture, endTime };
+    }
+
+    it("credits the outbid bidder their bid and fees", async function () {
+      const { registry, buyer, otherBuyer, landId } = await loadFixture(auctionFixture);
+
+      await expect(
+        registry.connect(buyer).bid(landId, RESERVE - 1n, { value: RESERVE - 1n + ethFees(RESERVE - 1n) })
+      ).to.be.revertedWithCustomError(registry, "BidTooLow");
+      await registry.connect(buyer).bid(landId, RESERVE, { value: RESERVE + ethFees(RESERVE) });
+
+      const tooSmall = RESERVE + INCREMENT - 1n;
+      await expect(
+        registry.connect(otherBuyer).bid(landId, tooSmall, { value: tooSmall + ethFees(tooSmall) })
+      ).to.be.revertedWithCustomError(registry, "BidTooLow");
+      await registry.connect(otherBuyer).bid(landId, HIGHER_BID, { value: HIGHER_BID + ethFees(HIGHER_BID) });
+
+      expect(await registry.pendingWithdrawals(buyer.address)).to.equal(RESERVE + ethFees(RESERVE));
+      const auction = await registry.auctions(landId);
+      expect(auction.highestBidder).to.equal(otherBuyer.address);
+      expect(auction.highestBidFees).to.equal(ethFees(HIGHER_BID));
+    });
+
+    it("settles to the highest bidder after the end", async function () {
+      const { registry, seller, buyer, treasury, landId, endTime } = await loadFixture(auctionFixture);
+
+      await registry.connect(buyer).bid(landId, HIGHER_BID, { value: HIGHER_BID + ethFees(HIGHER_BID) });
+      await expect(registry.settleAuction(landId)).to.be.revertedWithCustomError(registry, "AuctionNotEnded");
+
+      await time.increaseTo(endTime);
+      await expect(registry.settleAuction(landId))
+        .to.emit(registry, "AuctionSettled")
+        .withArgs(landId, buyer.address, HIGHER_BID);
+      expect(await registry.ownerOf(landId)).to.equal(buyer.address);
+      expect(await registry.pendingWithdrawals(seller.address)).to.equal(HIGHER_BID);
+      expect(await registry.pendingWithdrawals(treasury.address)).to.equal(ethFees(HIGHER_BID));
+    });
+
+    it("pays out the fees fixed when the winning bid was placed", async function () {
+      const { registry, buyer, treasury, landId, endTime } = await loadFixture(auctionFixture);
+
+      await registry.connect(buyer).bid(landId, HIGHER_BID, { value: HIGHER_BID + ethFees(HIGHER_BID) });
+      await registry.setManualRate(RATE_SEN_PER_ETH * 2n);
+
+      await time.increaseTo(endTime);
+      await registry.settleAuction(landId);
+      expect(await registry.pendingWithdrawals(treasury.address)).to.equal(ethFees(HIGHER_BID));
+    });
+
+    it("can be cancelled by the seller only before the first bid", async function () {
+      const { registry, seller, buyer, landId } = await loadFixture(auctionFixture);
+
+      await registry.connect(seller).cancelAuction(landId);
+      expect(await statusOf(registry, landId)).to.equal(Status.Active);
+
+      const endTime = (await time.latest()) + DAY;
+      await registry.connect(seller).startAuction(landId, RESERVE, INCREMENT, endTime);
+      await registry.connect(buyer).bid(landId, RESERVE, { value: RESERVE + ethFees(RESERVE) });
+      await expect(registry.connect(seller).cancelAuction(landId)).to.be.revertedWithCustomError(
+        registry,
+        "AuctionHasBids"
+      );
+    });
+
+    it("refunds the highest bid once the settlement period has passed", async function () {
+      const { registry, buyer, otherBuyer, landId, endTime } = await loadFixture(auctionFixture);
+
+      await registry.connect(buyer).bid(landId, RESERVE, { value: RESERVE + ethFees(RESERVE) });
+      await time.increaseTo(endTime);
+      await expect(registry.connect(otherBuyer).refundAuction(landId)).to.be.revertedWithCustomError(
+        registry,
+        "SettlementPeriodNotOver"
+      );
+
+      await time.increaseTo(endTime + 7 * DAY);
+      await expect(registry.connect(otherBuyer).refundAuction(landId)).to.emit(registry, "AuctionCancelled");
+      expect(await registry.pendingWithdrawals(buyer.address)).to.equal(RESERVE + ethFees(RESERVE));
+      expect(await statusOf(registry, landId)).to.equal(Status.Active);
+    });
+  });
+});
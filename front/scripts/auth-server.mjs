@@ -0,0 +1,186 @@
+// Sign-In with Ethereum session service for src/lib/authSession.ts:
+//   GET  /nonce    → { nonce }                      single use, expires after NONCE_TTL_MS
+//   POST /verify   { message, signature }           → { token, address, chainId, expiresAt }
+//   GET  /session  Authorization: Bearer <token>    → { address, chainId, expiresAt }
+//   POST /logout   Authorization: Bearer <token>    → 204
+// Tokens are HMAC-signed (base64url payload + "." + signature), so sessions survive
+// a restart only when AUTH_SECRET is set. Logged-out tokens are remembered until they expire.
+// Only messages naming one of the app's origins (AUTH_ORIGINS, by default the Vite dev server)
+// and the registry's chain (AUTH_CHAIN_ID) are accepted.
+// Run directly (`npm run auth:server`) it listens on AUTH_PORT; tests build one with createAuthServer.
+import { createServer } from "node:http";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { pathToFileURL } from "node:url";
+import { SiweMessage, generateNonce } from "siwe";
+
+const NONCE_TTL_MS = 5 * 60 * 1000;
+const MAX_BODY_BYTES = 16 * 1024;
+
+function prune(map, now) {
+  for (const [key, expiresAt] of map) if (expiresAt <= now) map.delete(key);
+}
+
+function bearer(req) {
+  return /^Bearer (.+)$/.exec(req.headers.authorization || "")?.[1] ?? null;
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on("data", (c) => {
+      size += c.length;
+      if (size > MAX_BODY_BYTES) reject(new Error("Request body too large"));
+      else chunks.push(c);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString() || "{}"));
+      } catch {
+        reject(new Error("Malformed JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+// The origin of a URL, or null if it is not one
+function originOf(url) {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+/**
+ * The session service as an unstarted http.Server.
+ * @param {object}   options
+ * @param {string}   options.secret        HMAC key for session tokens
+ * @param {number}   options.sessionTtlMs  how long a session lasts
+ * @param {string[]} options.origins       app origins that may sign in, e.g. "http://localhost:5173";
+ *                                         the message's domain must be one's host and its uri on it
+ * @param {number}   options.chainId       chain the message must name
+ * @param {() => number} [options.now]     clock in unix milliseconds, for tests
+ */
+export function createAuthServer({ secret, sessionTtlMs, origins, chainId, now = Date.now }) {
+  const allowed = (origins ?? []).map(originOf);
+  if (allowed.length === 0 || allowed.includes(null)) {
+    throw new Error("createAuthServer needs at least one app origin, e.g. http://localhost:5173");
+  }
+  if (!Number.isInteger(chainId)) throw new Error("createAuthServer needs the registry's chainId");
+  const nonces = new Map(); // nonce → expiry (ms)
+  const revoked = new Map(); // token → expiry (ms)
+
+  function sign(payload) {
+    return createHmac("sha256", secret).update(payload).digest("base64url");
+  }
+
+  function issueToken(address, chainId) {
+    const expiresAt = now() + sessionTtlMs;
+    const payload = Buffer.from(JSON.stringify({ address, chainId, expiresAt })).toString("base64url");
+    return { token: `${payload}.${sign(payload)}`, address, chainId, expiresAt };
+  }
+
+  // The session a token stands for, or null if it is forged, expired or logged out
+  function readToken(token) {
+    const [payload, signature] = (token || "").split(".");
+    if (!payload || !signature) return null;
+    const expected = Buffer.from(sign(payload));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+    if (revoked.has(token)) return null;
+
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return session.expiresAt > now() ? session : null;
+  }
+
+  async function verify(req, res) {
+    const { message, signature } = await readJson(req);
+    if (typeof message !== "string" || typeof signature !== "string") {
+      return send(res, 400, { error: "message and signature are required" });
+    }
+
+    let siwe;
+    try {
+      siwe = new SiweMessage(message);
+    } catch {
+      return send(res, 400, { error: "Not a SIWE message" });
+    }
+    // Consume the nonce before verifying, so a failed attempt cannot be retried with it
+    const nonceExpiry = nonces.get(siwe.nonce);
+    nonces.delete(siwe.nonce);
+    if (!nonceExpiry || nonceExpiry <= now()) {
+      return send(res, 401, { error: "Unknown or expired nonce" });
+    }
+    const origin = allowed.find((o) => new URL(o).host === siwe.domain);
+    if (!origin || originOf(siwe.uri) !== origin) {
+      return send(res, 401, { error: `Sign-in from ${siwe.domain} (${siwe.uri}) is not allowed` });
+    }
+    if (siwe.chainId !== chainId) {
+      return send(res, 401, { error: `Sign in on chain ${chainId}, not ${siwe.chainId}` });
+    }
+
+    const result = await siwe.verify(
+      { signature, nonce: siwe.nonce, time: new Date(now()).toISOString() },
+      { suppressExceptions: true }
+    );
+    if (!result.success) {
+      return send(res, 401, { error: result.error?.type ?? "Invalid signature" });
+    }
+    send(res, 200, issueToken(result.data.address, result.data.chainId));
+  }
+
+  const server = createServer(async (req, res) => {
+    if (req.method === "OPTIONS") return send(res, 204);
+    const path = req.url?.split("?")[0];
+    prune(nonces, now());
+    prune(revoked, now());
+
+    try {
+      if (req.method === "GET" && path === "/nonce") {
+        const nonce = generateNonce();
+        nonces.set(nonce, now() + NONCE_TTL_MS);
+        return send(res, 200, { nonce });
+      }
+      if (req.method === "POST" && path === "/verify") return await verify(req, res);
+      if (req.method === "GET" && path === "/session") {
+        const session = readToken(bearer(req));
+        return session ? send(res, 200, session) : send(res, 401, { error: "No valid session" });
+      }
+      if (req.method === "POST" && path === "/logout") {
+        const token = bearer(req);
+        const session = readToken(token);
+        if (session) revoked.set(token, session.expiresAt);
+        return send(res, 204);
+      }
+      send(res, 404, { error: "not found" });
+    } catch (err) {
+      send(res, 400, { error: err.message });
+    }
+  });
+
+  return server;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.AUTH_PORT || 8787);
+  createAuthServer({
+    secret: process.env.AUTH_SECRET || randomBytes(32).toString("hex"),
+    sessionTtlMs: Number(process.env.AUTH_SESSION_TTL_SECONDS || 8 * 60 * 60) * 1000,
+    origins: (process.env.AUTH_ORIGINS || "http://localhost:5173,http://127.0.0.1:5173")
+      .split(",")
+      .filter(Boolean),
+    chainId: Number(process.env.AUTH_CHAIN_ID || 31337),
+  }).listen(port, () => console.log(`SIWE auth service http://127.0.0.1:${port}`));
+}
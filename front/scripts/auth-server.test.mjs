@@ -0,0 +1,166 @@
+// Runs the SIWE session service in-process and signs in with a Hardhat account.
+// `npm test`
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { SiweMessage } from "siwe";
+import { createAuthServer } from "./auth-server.mjs";
+
+// Hardhat's default account #0
+const HARDHAT_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const SESSION_TTL_MS = 60 * 60 * 1000;
+
+const wallet = new Wallet(HARDHAT_KEY);
+let clock = Date.now();
+let server;
+let baseUrl;
+
+before(async () => {
+  server = createAuthServer({
+    secret: "test-secret",
+    sessionTtlMs: SESSION_TTL_MS,
+    origins: ["http://localhost:5173"],
+    chainId: 31337,
+    now: () => clock,
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+
+async function call(path, init = {}) {
+  const res = await fetch(`${baseUrl}${path}`, init);
+  const text = await res.text();
+  return { status: res.status, body: text ? JSON.parse(text) : undefined };
+}
+
+async function signIn(nonce, fields = {}) {
+  const message = new SiweMessage({
+    domain: "localhost:5173",
+    address: wallet.address,
+    statement: "Sign in to the land registry",
+    uri: "http://localhost:5173",
+    version: "1",
+    chainId: 31337,
+    nonce,
+    issuedAt: new Date(clock).toISOString(),
+    ...fields,
+  }).prepareMessage();
+  const signature = await wallet.signMessage(message);
+  return call("/verify", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+}
+
+async function freshNonce() {
+  const { status, body } = await call("/nonce");
+  assert.equal(status, 200);
+  return body.nonce;
+}
+
+function session(token) {
+  return call("/session", { headers: { Authorization: `Bearer ${token}` } });
+}
+
+test("nonce → verify → session", async () => {
+  const { status, body } = await signIn(await freshNonce());
+  assert.equal(status, 200);
+  assert.equal(body.address, wallet.address);
+  assert.equal(body.chainId, 31337);
+  assert.equal(body.expiresAt, clock + SESSION_TTL_MS);
+
+  const current = await session(body.token);
+  assert.equal(current.status, 200);
+  assert.equal(current.body.address, wallet.address);
+});
+
+test("a nonce cannot be used twice", async () => {
+  const nonce = await freshNonce();
+  assert.equal((await signIn(nonce)).status, 200);
+
+  const replay = await signIn(nonce);
+  assert.equal(replay.status, 401);
+  assert.match(replay.body.error, /nonce/i);
+});
+
+test("a nonce the service never issued is refused", async () => {
+  assert.equal((await signIn("neverIssued123")).status, 401);
+});
+
+test("a signature from another account is refused", async () => {
+  const nonce = await freshNonce();
+  const message = new SiweMessage({
+    domain: "localhost:5173",
+    address: wallet.address,
+    uri: "http://localhost:5173",
+    version: "1",
+    chainId: 31337,
+    nonce,
+  }).prepareMessage();
+  const signature = await Wallet.createRandom().signMessage(message);
+  const { status } = await call("/verify", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+  assert.equal(status, 401);
+});
+
+test("the domain must be a configured app origin", async () => {
+  const { status, body } = await signIn(await freshNonce(), {
+    domain: "evil.example",
+    uri: "https://evil.example",
+  });
+  assert.equal(status, 401);
+  assert.match(body.error, /not allowed/);
+});
+
+test("the uri must be on the origin the domain names", async () => {
+  const { status } = await signIn(await freshNonce(), { uri: "https://evil.example/login" });
+  assert.equal(status, 401);
+});
+
+test("the chainId must be the registry's chain", async () => {
+  const { status, body } = await signIn(await freshNonce(), { chainId: 1 });
+  assert.equal(status, 401);
+  assert.match(body.error, /chain 31337/);
+});
+
+test("the service refuses to start without an app origin", () => {
+  assert.throws(() => createAuthServer({ secret: "s", sessionTtlMs: 1, origins: [], chainId: 31337 }));
+  assert.throws(() => createAuthServer({ secret: "s", sessionTtlMs: 1, origins: ["not a url"], chainId: 31337 }));
+});
+
+test("sessions expire", async () => {
+  const { body } = await signIn(await freshNonce());
+  assert.equal((await session(body.token)).status, 200);
+
+  clock += SESSION_TTL_MS;
+  try {
+    assert.equal((await session(body.token)).status, 401);
+  } finally {
+    clock -= SESSION_TTL_MS;
+  }
+});
+
+test("logout revokes the token", async () => {
+  const { body } = await signIn(await freshNonce());
+  const logout = await call("/logout", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${body.token}` },
+  });
+  assert.equal(logout.status, 204);
+  assert.equal((await session(body.token)).status, 401);
+});
+
+test("a tampered token is refused", async () => {
+  const { body } = await signIn(await freshNonce());
+  const [payload, signature] = body.token.split(".");
+  const forged = Buffer.from(
+    JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), expiresAt: clock * 2 })
+  ).toString("base64url");
+  assert.equal((await session(`${forged}.${signature}`)).status, 401);
+});
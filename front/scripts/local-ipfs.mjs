@@ -0,0 +1,103 @@
+// Minimal Kubo-compatible stand-in for offline development.
+// Serves just what src/lib/localStore.ts needs:
+//   POST /api/v0/add      (multipart "file")  → { Name, Hash, Size }
+//   GET  /ipfs/<cid>                          → stored bytes
+// CIDs are CIDv1 / raw / sha256, the same as `ipfs add --cid-version=1 --raw-leaves`
+// for single-block files. Files are kept under .ipfs-local/.
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const API_PORT = Number(process.env.LOCAL_IPFS_API_PORT || 5001);
+const GATEWAY_PORT = Number(process.env.LOCAL_IPFS_GATEWAY_PORT || 8080);
+const STORE_DIR = process.env.LOCAL_IPFS_DIR || ".ipfs-local";
+
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+function base32(bytes) {
+  let out = "";
+  let bits = 0;
+  let value = 0;
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+// version 1, raw codec (0x55), sha2-256 multihash (0x12, 32 bytes)
+function cidFor(data) {
+  const digest = createHash("sha256").update(data).digest();
+  return "b" + base32(Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), digest]));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (c) => chunks.push(c));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+// First part of a multipart/form-data body: { name, data }
+function firstPart(body, contentType) {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType || "");
+  if (!match) throw new Error("Missing multipart boundary");
+  const boundary = Buffer.from(`--${match[1] || match[2]}`);
+
+  const start = body.indexOf(boundary) + boundary.length + 2; // skip CRLF
+  const headerEnd = body.indexOf("\r\n\r\n", start);
+  const end = body.indexOf(Buffer.concat([Buffer.from("\r\n"), boundary]), headerEnd);
+  if (start < boundary.length || headerEnd < 0 || end < 0) throw new Error("Malformed multipart body");
+
+  const headers = body.subarray(start, headerEnd).toString();
+  const name = /filename="([^"]*)"/.exec(headers)?.[1] || "file";
+  return { name, data: body.subarray(headerEnd + 4, end) };
+}
+
+function send(res, status, body, type = "application/json") {
+  res.writeHead(status, {
+    "Content-Type": type,
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  res.end(body);
+}
+
+const api = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, "");
+  if (req.method !== "POST" || !req.url?.startsWith("/api/v0/add")) {
+    return send(res, 404, JSON.stringify({ Message: "not found" }));
+  }
+  try {
+    const { name, data } = firstPart(await readBody(req), req.headers["content-type"]);
+    const cid = cidFor(data);
+    await writeFile(join(STORE_DIR, cid), data);
+    send(res, 200, JSON.stringify({ Name: name, Hash: cid, Size: String(data.length) }));
+  } catch (err) {
+    send(res, 400, JSON.stringify({ Message: err.message }));
+  }
+});
+
+const gateway = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, "");
+  const cid = /^\/ipfs\/([a-z2-7]+)$/.exec(req.url?.split("?")[0] || "")?.[1];
+  if (!cid) return send(res, 404, "not found", "text/plain");
+  try {
+    send(res, 200, await readFile(join(STORE_DIR, cid)), "application/octet-stream");
+  } catch {
+    send(res, 404, "not found", "text/plain");
+  }
+});
+
+await mkdir(STORE_DIR, { recursive: true });
+api.listen(API_PORT, () => console.log(`Local IPFS API     http://127.0.0.1:${API_PORT}`));
+gateway.listen(GATEWAY_PORT, () => console.log(`Local IPFS gateway http://127.0.0.1:${GATEWAY_PORT}`));
@@ -7,13 +7,17 @@ import Service from './pages/service';
 import Login from './pages/login';
 import Register from './pages/register';
 import Property from './pages/user/property'
+import StaffProperty from './pages/staff/property'
+import AdminDashboard from './pages/admin/dashboard'
+import AdminTransactions from './pages/admin/transactions'
+import AdminProperty from './pages/admin/property'
 // AuthProvider をインポート
 import { AuthProvider } from './AuthContext';
 
 function App() {
   return (
     <AuthProvider>
-      <Navbar userRole="user" />
+      <Navbar />
       <Routes>
         <Route path="/" element={<Home />} />
         <Route path="/login" element={<Login />} />
@@ -21,6 +25,10 @@ function App() {
         <Route path="/about" element={<About />} />
         <Route path="/service" element={<Service />} />
         <Route path="/user/properties" element={<Property />} />
+        <Route path="/staff/properties" element={<StaffProperty />} />
+        <Route path="/admin/dashboard" element={<AdminDashboard />} />
+        <Route path="/admin/transactions" element={<AdminTransactions />} />
+        <Route path="/admin/properties" element={<AdminProperty />} />
       </Routes>
     </AuthProvider>
   );
@@ -1,15 +1,38 @@
 // src/AuthContext.tsx
 import React, { createContext, useContext, useState, useEffect } from 'react'
 import type { ReactNode } from 'react'
-import { getUserMetadata } from './lib/contracts'
+import { useNavigate } from 'react-router-dom'
+import {
+  fetchUserRole,
+  getReadOnlyContract,
+  getUserMetadata,
+  watchUserRole,
+  type UserRole,
+} from './lib/contracts'
+import {
+  endSession,
+  fetchSession,
+  loadStoredSession,
+  storeSession,
+  type AuthSession,
+} from './lib/authSession'
+import {
+  isSessionAccount,
+  readWalletState,
+  watchWallet,
+  type WalletState,
+} from './lib/wallet'
 
+// 認証サービスに届かないときの再検証間隔
+const SESSION_RETRY_MS = 30_000
 
 interface AuthContextType {
-  address: string | null
+  address: string | null    // 認証サービスで検証済みのセッション（サービス停止中は保存済みのもの）がある場合のみ
   userName: string | null   // 「john doe」 のように firstName + lastName を入れる
-  userRole: string | null   // JSON に "role" フィールドがあれば入れる（なければ null）
+  userRole: UserRole | null // LandRegistry の owner() / roles() から取得（メタデータは使わない）
   userNric: string | null   // JSON に "nric" フィールドがあれば入れる
-  login: (addr: string) => Promise<void>
+  wallet: WalletState       // MetaMask の現在のアカウント / チェーン（書き込み前のチェックとセッション照合に使う）
+  login: (session: AuthSession) => Promise<void>
   logout: () => void
 }
 
@@ -18,29 +41,99 @@ const AuthContext = createContext<AuthContextType>({
   userName: null,
   userRole: null,
   userNric: null,
+  wallet: { account: null, chainId: null },
   login: async () => {},
   logout: () => {}
 })
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [address, setAddress] = useState<string | null>(null)
+  const [session, setSession] = useState<AuthSession | null>(null)
+  const address = session?.address ?? null
   const [userName, setUserName] = useState<string | null>(null)
-  const [userRole, setUserRole] = useState<string | null>(null)
+  const [userRole, setUserRole] = useState<UserRole | null>(null)
   const [userNric, setUserNric] = useState<string | null>(null)
+  const [wallet, setWallet] = useState<WalletState>({ account: null, chainId: null })
+  // 初回の readWalletState が終わるまではアカウント不一致の判定をしない
+  const [walletReady, setWalletReady] = useState(false)
+  const navigate = useNavigate()
 
-  // ローカルストレージに保存されたアドレスがあれば復元
+  // 保存済みのセッションはサーバーで再検証し、拒否 (401) されたときだけ破棄する。
+  // 認証サービスに届かない間は保存済みのセッションを使い続け、再検証を繰り返す
   useEffect(() => {
-    const stored = localStorage.getItem('walletAddress')
-    if (stored) {
-      setAddress(stored)
+    const stored = loadStoredSession()
+    if (!stored) {
+      storeSession(null)
+      return
+    }
+
+    let cancelled = false
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    // ログアウトや再ログインで保存済みのトークンが変わったら結果を捨てる
+    const isCurrent = () => !cancelled && loadStoredSession()?.token === stored.token
+    const validate = () => {
+      fetchSession(stored.token)
+        .then((valid) => {
+          if (!isCurrent()) return
+          storeSession(valid)
+          setSession(valid)
+        })
+        .catch((err) => {
+          if (!isCurrent()) return
+          console.warn('Auth service unreachable; keeping the stored session:', err)
+          setSession((current) => current ?? stored)
+          retryTimer = setTimeout(validate, SESSION_RETRY_MS)
+        })
+    }
+    validate()
+    return () => {
+      cancelled = true
+      clearTimeout(retryTimer)
+    }
+  }, [])
+
+  // accountsChanged / chainChanged / disconnect を購読
+  useEffect(() => {
+    let cancelled = false
+    readWalletState()
+      .then((state) => {
+        if (!cancelled) setWallet(state)
+      })
+      .catch((err) => console.error('Failed to read wallet state:', err))
+      .finally(() => {
+        if (!cancelled) setWalletReady(true)
+      })
+    const unwatch = watchWallet(setWallet)
+    return () => {
+      cancelled = true
+      unwatch()
     }
   }, [])
 
+  // ウォレットのアカウントがセッションと違えば再ログインさせる
+  useEffect(() => {
+    if (!session || !walletReady || isSessionAccount(wallet, session.address)) return
+    endSession(session.token)
+    storeSession(null)
+    setSession(null)
+    navigate('/login', {
+      state: { notice: 'Your wallet account changed. Please sign in again.' },
+    })
+  }, [session, wallet, walletReady, navigate])
+
+  // セッションの有効期限が来たらログアウト
+  useEffect(() => {
+    if (!session) return
+    const timer = setTimeout(() => {
+      storeSession(null)
+      setSession(null)
+    }, Math.max(session.expiresAt - Date.now(), 0))
+    return () => clearTimeout(timer)
+  }, [session])
+
   // address が変わったらメタデータを取得して state 更新
   useEffect(() => {
     if (!address) {
       setUserName(null)
-      setUserRole(null)
       setUserNric(null)
       return
     }
@@ -51,42 +144,74 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // fullName
         const fullName = `${meta.firstName ?? ''} ${meta.lastName ?? ''}`.trim()
         setUserName(fullName || null)
-        // role
-        setUserRole(meta.role ?? null)
       } catch {
         setUserName(null)
-        setUserRole(null)
       }
     }
 
     fetchMetadata()
   }, [address])
 
-  const login = async (addr: string) => {
-    setAddress(addr)
-    localStorage.setItem('walletAddress', addr)
+  // ロールはオンチェーンが正。登録・スタッフ任命/解任・owner 移転のイベントで再取得する
+  useEffect(() => {
+    if (!address) {
+      setUserRole(null)
+      return
+    }
+
+    let cancelled = false
+    let unwatch: (() => void) | null = null
+
+    // 読み取り専用コントラクトで引くので、ウォレットのチェーンに左右されない
+    const contract = getReadOnlyContract()
+    const init = async () => {
+      const refresh = async () => {
+        const role = await fetchUserRole(contract, address)
+        if (!cancelled) setUserRole(role)
+      }
+      await refresh()
+      if (cancelled) return
+      unwatch = watchUserRole(contract, address, () => {
+        refresh().catch((err) => console.error('Failed to refresh role:', err))
+      })
+    }
+
+    init().catch((err) => {
+      console.error('Failed to load role:', err)
+      if (!cancelled) setUserRole(null)
+    })
+    return () => {
+      cancelled = true
+      unwatch?.()
+    }
+  }, [address])
+
+  const login = async (next: AuthSession) => {
+    // 署名直後はまだ accountsChanged が届いていないことがあるので先に読み直す
+    setWallet(await readWalletState())
+    storeSession(next)
+    setSession(next)
     try {
-      const meta = await getUserMetadata(addr)
+      const meta = await getUserMetadata(next.address)
       const fullName = `${meta.firstName ?? ''} ${meta.lastName ?? ''}`.trim()
       setUserName(fullName || null)
-      setUserRole(meta.role ?? null)
     } catch {
       setUserName(null)
-      setUserRole(null)
     }
   }
 
   const logout = () => {
-    setAddress(null)
+    if (session) endSession(session.token)
+    setSession(null)
     setUserName(null)
     setUserRole(null)
     setUserNric(null)
-    localStorage.removeItem('walletAddress')
+    storeSession(null)
   }
 
   return (
     <AuthContext.Provider
-      value={{ address, userName, userRole, userNric, login, logout }}
+      value={{ address, userName, userRole, userNric, wallet, login, logout }}
     >
       {children}
     </AuthContext.Provider>
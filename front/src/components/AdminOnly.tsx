@@ -0,0 +1,39 @@
+// src/components/AdminOnly.tsx
+import type { ReactNode } from "react";
+import { ShieldAlert } from "lucide-react";
+
+interface AdminOnlyProps {
+  isChecking: boolean;
+  isOwner: boolean;
+  children: ReactNode;
+}
+
+/**
+ * Renders the admin page only for the LandRegistry owner
+ */
+export default function AdminOnly({ isChecking, isOwner, children }: AdminOnlyProps) {
+  if (isChecking) {
+    return (
+      <div className="max-w-[90%] mx-auto px-4 py-16 text-center text-gray-500">
+        Checking administrator access...
+      </div>
+    );
+  }
+
+  if (!isOwner) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-16 text-center">
+        <ShieldAlert className="w-12 h-12 text-red-500 mx-auto mb-4" />
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">
+          Administrator Access Only
+        </h1>
+        <p className="text-gray-600">
+          Connect the wallet that owns the land registry contract to use the
+          admin console.
+        </p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
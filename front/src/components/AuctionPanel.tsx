@@ -0,0 +1,247 @@
+// src/components/AuctionPanel.tsx
+import { useState, useEffect, useCallback } from "react";
+import { Gavel } from "lucide-react";
+import { formatEther, parseEther, ZeroAddress, type Contract } from "ethers";
+import {
+  fetchAuction,
+  fetchOfferFeeQuote,
+  minimumNextBid,
+  placeBid,
+  settleLandAuction,
+  cancelLandAuction,
+  refundLandAuction,
+  getCurrentRate,
+  type AuctionInfo,
+} from "../lib/contracts";
+import { type ExchangeRate } from "../lib/exchangeRate";
+import { formatRM, weiToSen } from "../lib/money";
+
+// How often the panel re-reads the auction while it is open
+const POLL_INTERVAL_MS = 10_000;
+
+interface AuctionPanelProps {
+  contract: Contract | null;
+  landId: string;
+  ownerAddress: string;
+  address: string | null;
+  // Called after settle/cancel so the page can reload the parcel
+  onClosed: () => void;
+}
+
+function formatRemaining(seconds: number): string {
+  if (seconds <= 0) return "Ended";
+  const d = Math.floor(seconds / 86400);
+  const h = Math.floor((seconds % 86400) / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return d > 0 ? `${d}d ${h}h ${m}m` : `${h}h ${m}m ${s}s`;
+}
+
+/**
+ * Live view of a running auction: highest bid, countdown and a bid form.
+ * After the end time anyone can settle; the owner can cancel before the first bid.
+ * An auction still unsettled after the settlement period can be unwound by anyone.
+ */
+export default function AuctionPanel({
+  contract,
+  landId,
+  ownerAddress,
+  address,
+  onClosed,
+}: AuctionPanelProps) {
+  const [auction, setAuction] = useState<AuctionInfo | null>(null);
+  const [rate, setRate] = useState<ExchangeRate | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [bidEth, setBidEth] = useState("");
+  // Stamp duty and registration fee escrowed on top of the bid being entered
+  const [bidFees, setBidFees] = useState<bigint | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAuction = useCallback(async () => {
+    if (!contract) return;
+    try {
+      setAuction(await fetchAuction(contract, landId));
+    } catch (err) {
+      console.error(`fetchAuction failed for id=${landId}:`, err);
+    }
+  }, [contract, landId]);
+
+  useEffect(() => {
+    loadAuction();
+    const poll = setInterval(loadAuction, POLL_INTERVAL_MS);
+    const tick = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => {
+      clearInterval(poll);
+      clearInterval(tick);
+    };
+  }, [loadAuction]);
+
+  useEffect(() => {
+    getCurrentRate()
+      .then(setRate)
+      .catch((err) => console.warn("MYR/ETH rate unavailable:", err));
+  }, []);
+
+  // Keep the bid field at the current minimum until the user edits it
+  const minBid = auction ? minimumNextBid(auction) : null;
+  useEffect(() => {
+    if (minBid !== null) setBidEth(formatEther(minBid));
+  }, [minBid]);
+
+  useEffect(() => {
+    setBidFees(null);
+    if (!contract) return;
+    let amount: bigint;
+    try {
+      amount = parseEther(bidEth.trim());
+    } catch {
+      return;
+    }
+    fetchOfferFeeQuote(contract, ZeroAddress, amount)
+      .then((quote) => setBidFees(quote.total))
+      .catch((err) => console.error("Failed to load bid fees:", err));
+  }, [contract, bidEth]);
+
+  const run = async (action: () => Promise<{ wait: () => Promise<unknown> }>, closes: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const tx = await action();
+      await tx.wait();
+      if (closes) onClosed();
+      else await loadAuction();
+    } catch (err) {
+      console.error("Auction action failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!auction) {
+    return <p className="text-sm text-gray-500">Loading auction...</p>;
+  }
+
+  const hasBids = auction.highestBidder !== ZeroAddress;
+  const remaining = auction.endTime - now;
+  const isOwner = address?.toLowerCase() === ownerAddress.toLowerCase();
+  const isLeading = hasBids && address?.toLowerCase() === auction.highestBidder.toLowerCase();
+  const asRM = (wei: bigint) => (rate ? ` ≈ RM ${formatRM(weiToSen(wei, rate.senPerEth))}` : "");
+
+  const handleBid = () => {
+    let amount: bigint;
+    try {
+      amount = parseEther(bidEth.trim());
+    } catch {
+      setError("Enter the bid as a plain ETH amount");
+      return;
+    }
+    if (minBid !== null && amount < minBid) {
+      setError(`Bid at least ${formatEther(minBid)} ETH`);
+      return;
+    }
+    run(() => placeBid(landId, amount), false);
+  };
+
+  return (
+    <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-purple-800 inline-flex items-center">
+          <Gavel className="w-4 h-4 mr-2" />
+          Auction
+        </h3>
+        <span className="text-sm font-mono text-purple-800">{formatRemaining(remaining)}</span>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        <dt className="text-gray-600">Highest bid</dt>
+        <dd className="text-gray-900 font-semibold">
+          {hasBids ? `${formatEther(auction.highestBid)} ETH${asRM(auction.highestBid)}` : "No bids yet"}
+        </dd>
+        {hasBids && (
+          <>
+            <dt className="text-gray-600">Leading bidder</dt>
+            <dd className="text-gray-900 font-mono text-xs truncate">
+              {isLeading ? "You" : auction.highestBidder}
+            </dd>
+          </>
+        )}
+        <dt className="text-gray-600">Reserve</dt>
+        <dd className="text-gray-900">
+          {formatEther(auction.reservePrice)} ETH{asRM(auction.reservePrice)}
+        </dd>
+        <dt className="text-gray-600">Minimum increment</dt>
+        <dd className="text-gray-900">{formatEther(auction.minIncrement)} ETH</dd>
+        <dt className="text-gray-600">Ends</dt>
+        <dd className="text-gray-900">
+          {new Date(auction.endTime * 1000).toLocaleString("en-MY")}
+        </dd>
+      </dl>
+
+      {remaining > 0 && !isOwner && address && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={bidEth}
+            onChange={(e) => setBidEth(e.target.value)}
+            disabled={isSubmitting}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleBid}
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {isSubmitting ? "Bidding..." : "Place Bid (ETH)"}
+          </button>
+        </div>
+      )}
+      {remaining > 0 && !isOwner && (
+        <p className="text-xs text-gray-500">
+          {bidFees !== null && bidFees > 0n
+            ? `Stamp duty and the registration fee (${formatEther(bidFees)} ETH) are escrowed on top of your bid. `
+            : ""}
+          If you are outbid, your bid and its fees are credited to your withdrawable balance.
+        </p>
+      )}
+
+      {remaining <= 0 && (
+        <button
+          onClick={() => run(() => settleLandAuction(landId), true)}
+          disabled={isSubmitting}
+          className="w-full px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+        >
+          {hasBids ? "Settle Auction" : "Close Auction (no bids)"}
+        </button>
+      )}
+      {now >= auction.refundableAt && (
+        <>
+          <button
+            onClick={() => run(() => refundLandAuction(landId), true)}
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            Refund and Cancel Auction
+          </button>
+          <p className="text-xs text-gray-500">
+            Nobody settled this auction in time. Cancelling returns the land to its owner
+            {hasBids ? " and credits the highest bid and its fees back to the bidder" : ""}.
+          </p>
+        </>
+      )}
+      {remaining > 0 && isOwner && !hasBids && (
+        <button
+          onClick={() => run(() => cancelLandAuction(landId), true)}
+          disabled={isSubmitting}
+          className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+        >
+          Cancel Auction
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">Error: {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+// src/components/EligibilityTools.tsx
+import { useState } from "react";
+import { ShieldCheck, UserCheck, Stamp } from "lucide-react";
+import { type Contract } from "ethers";
+import {
+  attestBuyer,
+  fetchBuyerProfile,
+  fetchLandRestrictions,
+  fetchStateConsent,
+  setStateConsent,
+  updateLandRestrictions,
+} from "../lib/contracts";
+import { senToDecimal, tryParseRM } from "../lib/money";
+
+interface EligibilityToolsProps {
+  contract: Contract | null;
+}
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+const buttonClass =
+  "px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50";
+
+/**
+ * Staff tools for the transfer eligibility rules: title restrictions per parcel,
+ * buyer attestations, and state authority consent for a buyer on a parcel.
+ * Each form loads the current on-chain value before it is changed.
+ */
+export default function EligibilityTools({ contract }: EligibilityToolsProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Title restrictions
+  const [restrictionLandId, setRestrictionLandId] = useState("");
+  const [malayReserve, setMalayReserve] = useState(false);
+  const [stateConsentRequired, setStateConsentRequired] = useState(false);
+  const [foreignMinRM, setForeignMinRM] = useState("0");
+
+  // Buyer attestation
+  const [buyer, setBuyer] = useState("");
+  const [isMalay, setIsMalay] = useState(false);
+  const [isForeign, setIsForeign] = useState(false);
+
+  // State consent
+  const [consentLandId, setConsentLandId] = useState("");
+  const [consentBuyer, setConsentBuyer] = useState("");
+  const [consentGranted, setConsentGranted] = useState<boolean | null>(null);
+
+  const run = async (
+    label: string,
+    action: () => Promise<{ wait: () => Promise<unknown> }>
+  ) => {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const tx = await action();
+      await tx.wait();
+      setNotice(`${label} saved`);
+    } catch (err) {
+      console.error(`${label} failed:`, err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const load = async (action: () => Promise<void>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Eligibility lookup failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadRestrictions = () =>
+    load(async () => {
+      if (!contract) return;
+      const r = await fetchLandRestrictions(contract, restrictionLandId);
+      setMalayReserve(r.malayReserve);
+      setStateConsentRequired(r.stateConsentRequired);
+      setForeignMinRM(senToDecimal(r.foreignMinPriceSen));
+    });
+
+  const loadBuyer = () =>
+    load(async () => {
+      if (!contract) return;
+      const profile = await fetchBuyerProfile(contract, buyer.trim());
+      setIsMalay(profile.malay);
+      setIsForeign(profile.foreign);
+      setNotice(profile.attested ? "Buyer already attested" : "Buyer not attested yet");
+    });
+
+  const loadConsent = () =>
+    load(async () => {
+      if (!contract) return;
+      setConsentGranted(await fetchStateConsent(contract, consentLandId, consentBuyer.trim()));
+    });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800">Transfer Eligibility</h2>
+        <p className="text-sm text-gray-500">
+          Purchases and transfers of restricted titles are refused unless the buyer meets them.
+        </p>
+      </div>
+
+      {/* Title restrictions */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-700 inline-flex items-center">
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Title Restrictions
+        </h3>
+        <div className="flex gap-3">
+          <input
+            type="number"
+            min="1"
+            placeholder="Land ID"
+            value={restrictionLandId}
+            onChange={(e) => setRestrictionLandId(e.target.value)}
+            className={`w-32 ${inputClass}`}
+          />
+          <button
+            onClick={loadRestrictions}
+            disabled={!restrictionLandId}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+          >
+            Load
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={malayReserve}
+              onChange={(e) => setMalayReserve(e.target.checked)}
+              className="mr-2"
+            />
+            Malay Reserve land
+          </label>
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={stateConsentRequired}
+              onChange={(e) => setStateConsentRequired(e.target.checked)}
+              className="mr-2"
+            />
+            State consent required
+          </label>
+          <label className="inline-flex items-center">
+            Foreign buyer minimum (RM)
+            <input
+              type="number"
+              min="0"
+              value={foreignMinRM}
+              onChange={(e) => setForeignMinRM(e.target.value)}
+              className={`ml-2 w-40 ${inputClass}`}
+            />
+          </label>
+        </div>
+        <button
+          onClick={() =>
+            run("Title restrictions", () =>
+              updateLandRestrictions(
+                restrictionLandId,
+                malayReserve,
+                stateConsentRequired,
+                foreignMinRM
+              )
+            )
+          }
+          disabled={isSubmitting || !restrictionLandId || tryParseRM(foreignMinRM) === null}
+          className={buttonClass}
+        >
+          Save Restrictions
+        </button>
+      </div>
+
+      {/* Buyer attestation */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-700 inline-flex items-center">
+          <UserCheck className="w-4 h-4 mr-2" />
+          Buyer Attestation
+        </h3>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            placeholder="0x... buyer wallet address"
+            value={buyer}
+            onChange={(e) => setBuyer(e.target.value)}
+            className={`flex-1 font-mono ${inputClass}`}
+          />
+          <button
+            onClick={loadBuyer}
+            disabled={!buyer.trim()}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+          >
+            Load
+          </button>
+        </div>
+        <div className="flex gap-4 text-sm text-gray-700">
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={isMalay}
+              onChange={(e) => setIsMalay(e.target.checked)}
+              className="mr-2"
+            />
+            Malay
+          </label>
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={isForeign}
+              onChange={(e) => setIsForeign(e.target.checked)}
+              className="mr-2"
+            />
+            Foreign purchaser
+          </label>
+        </div>
+        <button
+          onClick={() => run("Buyer attestation", () => attestBuyer(buyer.trim(), isMalay, isForeign))}
+          disabled={isSubmitting || !buyer.trim()}
+          className={buttonClass}
+        >
+          Attest Buyer
+        </button>
+      </div>
+
+      {/* State consent */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-700 inline-flex items-center">
+          <Stamp className="w-4 h-4 mr-2" />
+          State Consent
+        </h3>
+        <div className="flex gap-3">
+          <input
+            type="number"
+            min="1"
+            placeholder="Land ID"
+            value={consentLandId}
+            onChange={(e) => {
+              setConsentLandId(e.target.value);
+              setConsentGranted(null);
+            }}
+            className={`w-32 ${inputClass}`}
+          />
+          <input
+            type="text"
+            placeholder="0x... buyer wallet address"
+            value={consentBuyer}
+            onChange={(e) => {
+              setConsentBuyer(e.target.value);
+              setConsentGranted(null);
+            }}
+            className={`flex-1 font-mono ${inputClass}`}
+          />
+          <button
+            onClick={loadConsent}
+            disabled={!consentLandId || !consentBuyer.trim()}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+          >
+            Load
+          </button>
+        </div>
+        {consentGranted !== null && (
+          <p className="text-sm text-gray-600">
+            Consent is currently {consentGranted ? "granted" : "not granted"}.
+          </p>
+        )}
+        <div className="flex gap-3">
+          <button
+            onClick={() =>
+              run("State consent", () => setStateConsent(consentLandId, consentBuyer.trim(), true))
+            }
+            disabled={isSubmitting || !consentLandId || !consentBuyer.trim()}
+            className={buttonClass}
+          >
+            Grant Consent
+          </button>
+          <button
+            onClick={() =>
+              run("State consent", () => setStateConsent(consentLandId, consentBuyer.trim(), false))
+            }
+            disabled={isSubmitting || !consentLandId || !consentBuyer.trim()}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            Withdraw Consent
+          </button>
+        </div>
+      </div>
+
+      {notice && <p className="text-sm text-green-700">{notice}</p>}
+      {error && <p className="text-sm text-red-600">Error: {error}</p>}
+    </div>
+  );
+}
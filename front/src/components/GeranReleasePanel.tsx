@@ -0,0 +1,94 @@
+// src/components/GeranReleasePanel.tsx
+import { useState, useEffect, useCallback } from "react";
+import { KeyRound } from "lucide-react";
+import { type Contract } from "ethers";
+import {
+  fetchPendingGeranReleases,
+  releaseGeranAccess,
+  type PendingGeranRelease,
+} from "../lib/contracts";
+
+interface GeranReleasePanelProps {
+  contract: Contract | null;
+  address: string | null;
+  // Bump after any transaction that may complete a sale to reload the list
+  refreshKey: number;
+}
+
+/**
+ * Parcels the connected wallet sold in a transaction it did not sign (a settled
+ * auction, or a deposit sale the buyer completed by paying the balance) whose
+ * encrypted geran is still under its control. The new owner
+ * cannot read the geran until the seller releases it here.
+ */
+export default function GeranReleasePanel({ contract, address, refreshKey }: GeranReleasePanelProps) {
+  const [releases, setReleases] = useState<PendingGeranRelease[]>([]);
+  const [busyLandId, setBusyLandId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReleases = useCallback(async () => {
+    if (!contract || !address) return;
+    try {
+      setReleases(await fetchPendingGeranReleases(contract, address));
+    } catch (err) {
+      console.error("Failed to load pending geran releases:", err);
+    }
+  }, [contract, address]);
+
+  useEffect(() => {
+    loadReleases();
+  }, [loadReleases, refreshKey]);
+
+  const handleRelease = async (release: PendingGeranRelease) => {
+    setBusyLandId(release.landId);
+    setError(null);
+    try {
+      await releaseGeranAccess(release);
+      await loadReleases();
+    } catch (err) {
+      console.error("Geran release failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyLandId(null);
+    }
+  };
+
+  if (!address || releases.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex items-center space-x-4 mb-4">
+        <div className="p-3 rounded-full text-orange-600 bg-orange-50">
+          <KeyRound className="w-6 h-6" />
+        </div>
+        <div>
+          <p className="text-lg font-semibold text-gray-900">Geran access to release</p>
+          <p className="text-xs text-gray-500">
+            These parcels changed hands without your signature. Release the encrypted
+            geran so the new owner can read it.
+          </p>
+        </div>
+      </div>
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {releases.map((release) => (
+          <li key={release.landId} className="px-4 py-3 flex items-center justify-between text-sm">
+            <div>
+              <p className="font-semibold text-gray-900">Parcel #{release.landId}</p>
+              <p className="text-xs text-gray-500 font-mono truncate max-w-xs">
+                New owner: {release.newOwner}
+              </p>
+            </div>
+            <button
+              onClick={() => handleRelease(release)}
+              disabled={busyLandId !== null}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+            >
+              {busyLandId === release.landId ? "Releasing..." : "Release Geran"}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="mt-3 text-sm text-red-600">Error: {error}</p>}
+    </div>
+  );
+}
@@ -3,19 +3,21 @@ import { useState } from 'react'
 import { Link, NavLink, useNavigate } from 'react-router-dom'
 import { Globe, Menu, X, User, LogOut, ChevronDown, Wallet } from 'lucide-react'
 import { useAuth } from '../AuthContext'
+import type { UserRole } from '../lib/contracts'
 
-type Role = 'admin' | 'staff' | 'user' | 'nonuser'
-
-interface NavbarProps {
-  userRole: Role
+// バッジに表示するロール名（nonuser は表示しない）
+const ROLE_LABELS: Partial<Record<UserRole, string>> = {
+  admin: 'Administrator',
+  staff: 'Staff',
+  user: 'Citizen',
 }
 
-export default function Navbar({ userRole }: NavbarProps) {
+export default function Navbar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
   const [isProfileDropdownOpen, setIsProfileDropdownOpen] = useState(false)
 
-  // AuthContext から address, userName, userRole, logout を取得
-  const { address, userName, userRole: ctxUserRole, logout } = useAuth()
+  // AuthContext から address, userName, userRole（オンチェーン）, logout を取得
+  const { address, userName, userRole, logout } = useAuth()
   const navigate = useNavigate()
 
   // アドレスを "0x1234...abcd" 形式に切り詰めるヘルパー
@@ -54,22 +56,21 @@ export default function Navbar({ userRole }: NavbarProps) {
       ? adminLinks
       : userRole === 'staff'
       ? staffLinks
-      : userRole === 'user'
-      ? userLinks
-      : []
+      : userLinks // 未ログインの閲覧者も登記簿を見られる
 
   const displayLinks = [...roleBasedLinks, ...commonLinks]
 
   // ログイン済みかどうか
   const isLoggedIn = Boolean(address)
 
-  // AuthContext の userRole（ctxUserRole）を使う場合のラベル・カラー
+  // userRole のラベル・カラー
   const roleConfig: Record<string, { color: string }> = {
     Administrator: { color: 'bg-red-100 text-red-800' },
     Staff:         { color: 'bg-green-100 text-green-800' },
     Citizen:       { color: 'bg-blue-100 text-blue-800' },
   }
-  const roleColor = ctxUserRole ? roleConfig[ctxUserRole]?.color || '' : ''
+  const roleLabel = userRole ? ROLE_LABELS[userRole] ?? null : null
+  const roleColor = roleLabel ? roleConfig[roleLabel]?.color || '' : ''
 
   return (
     <nav className="bg-white shadow-lg sticky top-0 z-50 m-2 rounded-lg">
@@ -140,12 +141,12 @@ export default function Navbar({ userRole }: NavbarProps) {
                           <p className="text-sm font-medium text-gray-900">
                             {userName ?? 'Unknown User'}
                           </p>
-                          {/* ここに userRole (ctxUserRole) を表示 */}
-                          {ctxUserRole && (
+                          {/* ここに userRole のラベルを表示 */}
+                          {roleLabel && (
                             <span
                               className={`inline-block px-2 py-1 text-xs font-medium rounded-full ${roleColor}`}
                             >
-                              {ctxUserRole}
+                              {roleLabel}
                             </span>
                           )}
                         </div>
@@ -226,11 +227,11 @@ export default function Navbar({ userRole }: NavbarProps) {
                       {shortenAddress(address || '')}
                     </p>
                   </div>
-                  {ctxUserRole && (
+                  {roleLabel && (
                     <span
                       className={`inline-block px-2 py-1 text-xs font-medium rounded-full mt-1 ${roleColor}`}
                     >
-                      {ctxUserRole}
+                      {roleLabel}
                     </span>
                   )}
                 </div>
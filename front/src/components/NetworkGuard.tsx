@@ -0,0 +1,55 @@
+// src/components/NetworkGuard.tsx
+import { useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { useAuth } from "../AuthContext";
+import {
+  NETWORK,
+  isExpectedChain,
+  switchToExpectedNetwork,
+  wrongNetworkMessage,
+} from "../lib/network";
+
+/**
+ * Warning with a switch button while the wallet is on a different chain than
+ * the registry. Renders nothing on the right network; forms that send
+ * transactions also disable their submit buttons meanwhile.
+ */
+export default function NetworkGuard() {
+  const { wallet } = useAuth();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (isExpectedChain(wallet.chainId)) return null;
+
+  // AuthContext picks up the new chain from chainChanged
+  const handleSwitch = async () => {
+    setIsSwitching(true);
+    setError(null);
+    try {
+      await switchToExpectedNetwork();
+    } catch (err) {
+      console.error("Network switch failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+      <p className="flex items-center">
+        <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+        {wrongNetworkMessage(wallet.chainId)}
+      </p>
+      <button
+        type="button"
+        onClick={handleSwitch}
+        disabled={isSwitching || !window.ethereum}
+        className="mt-2 px-3 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50"
+      >
+        {isSwitching ? "Switching..." : `Switch to ${NETWORK.name}`}
+      </button>
+      {error && <p className="mt-2 text-red-600">Error: {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+// src/components/PurchaseStepper.tsx
+import { useState, useEffect } from "react";
+import { CheckCircle, Circle, FileSignature } from "lucide-react";
+import { formatEther, formatUnits, ZeroAddress, type Contract } from "ethers";
+import {
+  fetchSaleTerms,
+  fetchFeeQuote,
+  fetchPaymentToken,
+  fetchTokenAllowance,
+  approvePaymentToken,
+  payPurchaseBalance,
+  enforceCompletionDeadline,
+  isCompletionOverdue,
+  type SaleInfo,
+  type SaleTerms,
+  type FeeQuote,
+  type PaymentToken,
+} from "../lib/contracts";
+
+interface PurchaseStepperProps {
+  contract: Contract | null;
+  landId: string;
+  saleInfo: SaleInfo;
+  address: string | null;
+  // Called after a transaction so the page can reload the parcel
+  onChanged: () => void;
+}
+
+interface Step {
+  label: string;
+  detail: string;
+}
+
+function formatDeadline(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toLocaleString("en-MY");
+}
+
+function formatPeriod(seconds: number): string {
+  const days = seconds / 86400;
+  return Number.isInteger(days) ? `${days} day(s)` : `${Math.round(seconds / 3600)} hour(s)`;
+}
+
+/**
+ * Where a pending purchase stands: escrow → seller acceptance → balance → transfer.
+ * Requests without a deposit skip the balance step. The buyer pays the balance
+ * here; once the completion deadline passes anyone can enforce the default rule.
+ */
+export default function PurchaseStepper({
+  contract,
+  landId,
+  saleInfo,
+  address,
+  onChanged,
+}: PurchaseStepperProps) {
+  const [terms, setTerms] = useState<SaleTerms | null>(null);
+  const [token, setToken] = useState<PaymentToken | null>(null);
+  const [fees, setFees] = useState<FeeQuote | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isTokenListing = saleInfo.paymentToken !== ZeroAddress;
+
+  useEffect(() => {
+    if (!contract) return;
+    fetchSaleTerms(contract, landId)
+      .then(setTerms)
+      .catch((err) => console.error(`fetchSaleTerms failed for id=${landId}:`, err));
+    fetchFeeQuote(contract, landId)
+      .then(setFees)
+      .catch((err) => console.error(`fetchFeeQuote failed for id=${landId}:`, err));
+    if (isTokenListing) {
+      fetchPaymentToken(contract, saleInfo.paymentToken)
+        .then(setToken)
+        .catch((err) => console.error("Failed to load payment token:", err));
+    }
+  }, [contract, landId, isTokenListing, saleInfo.paymentToken]);
+
+  const balance = saleInfo.priceWei - saleInfo.escrowedAmount;
+  const isDeposit = balance > 0n;
+  // Stamp duty and registration fee ride on the balance payment
+  const balanceDue = balance + (fees?.total ?? 0n);
+  const isAccepted = saleInfo.completionDeadline > 0;
+  const isOverdue = isCompletionOverdue(saleInfo);
+  const isBuyer = address?.toLowerCase() === saleInfo.pendingBuyer.toLowerCase();
+
+  const formatAmount = (amount: bigint) =>
+    isTokenListing
+      ? token
+        ? `${formatUnits(amount, token.decimals)} ${token.symbol}`
+        : "…"
+      : `${formatEther(amount)} ETH`;
+
+  const steps: Step[] = [
+    {
+      label: isDeposit ? "Deposit escrowed" : "Payment escrowed",
+      detail: formatAmount(saleInfo.escrowedAmount),
+    },
+    {
+      label: isDeposit ? "Seller accepts deposit" : "Seller approves transfer",
+      detail: isAccepted
+        ? "Accepted"
+        : `By ${formatDeadline(saleInfo.purchaseDeadline)}`,
+    },
+    ...(isDeposit
+      ? [
+          {
+            label: "Buyer pays balance",
+            detail: isAccepted
+              ? `${formatAmount(balanceDue)} incl. fees by ${formatDeadline(saleInfo.completionDeadline)}`
+              : `${formatAmount(balanceDue)} incl. fees within ${terms ? formatPeriod(terms.completionPeriod) : "…"} of acceptance`,
+          },
+        ]
+      : []),
+    {
+      label: "Ownership transferred",
+      detail: isDeposit ? "The seller then releases the encrypted geran to the buyer" : "",
+    },
+  ];
+  // Steps before this index are done
+  const current = isAccepted ? 2 : 1;
+
+  const run = async (action: () => Promise<{ wait: () => Promise<unknown> }>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const tx = await action();
+      await tx.wait();
+      onChanged();
+    } catch (err) {
+      console.error("Purchase action failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Token listings: let the registry pull the balance and fees first if it cannot yet
+  const handlePayBalance = () =>
+    run(async () => {
+      if (isTokenListing && address) {
+        const allowance = await fetchTokenAllowance(saleInfo.paymentToken, address);
+        if (allowance < balanceDue) {
+          const approval = await approvePaymentToken(saleInfo.paymentToken, balanceDue);
+          await approval.wait();
+        }
+      }
+      return await payPurchaseBalance(landId);
+    });
+
+  return (
+    <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-medium text-yellow-800 inline-flex items-center">
+        <FileSignature className="w-4 h-4 mr-2" />
+        Purchase Progress
+      </h3>
+
+      <ol className="space-y-2">
+        {steps.map((step, i) => {
+          const done = i < current;
+          const active = i === current;
+          return (
+            <li key={step.label} className="flex items-start text-sm">
+              {done ? (
+                <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-green-600" />
+              ) : (
+                <Circle
+                  className={`w-4 h-4 mr-2 mt-0.5 ${active ? "text-yellow-600" : "text-gray-300"}`}
+                />
+              )}
+              <div>
+                <p className={done || active ? "text-gray-900 font-medium" : "text-gray-500"}>
+                  {step.label}
+                </p>
+                {step.detail && <p className="text-xs text-gray-600">{step.detail}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {terms && isDeposit && (
+        <p className="text-xs text-gray-600">
+          {terms.depositBps / 100}% deposit. If the balance is not paid in time the deposit is{" "}
+          {terms.forfeitOnDefault ? "forfeited to the seller" : "refunded to the buyer"}.
+        </p>
+      )}
+
+      {isAccepted && !isOverdue && isBuyer && (
+        <button
+          onClick={handlePayBalance}
+          disabled={isSubmitting || !fees}
+          className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+        >
+          {isSubmitting ? "Paying..." : `Pay Balance (${formatAmount(balanceDue)})`}
+        </button>
+      )}
+      {isOverdue && (
+        <button
+          onClick={() => run(() => enforceCompletionDeadline(landId))}
+          disabled={isSubmitting}
+          className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+        >
+          {isSubmitting ? "Processing..." : "Completion Deadline Passed: Release Land"}
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">Error: {error}</p>}
+    </div>
+  );
+}
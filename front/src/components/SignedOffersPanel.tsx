@@ -0,0 +1,211 @@
+// src/components/SignedOffersPanel.tsx
+import { useState, useEffect, useCallback } from "react";
+import { PenLine } from "lucide-react";
+import { formatUnits, type Contract } from "ethers";
+import {
+  acceptSignedOffer,
+  cancelSignedOffer,
+  fetchPaymentToken,
+  fetchSignedOfferState,
+  importSignedOffer,
+  type PaymentToken,
+  type SignedOfferState,
+} from "../lib/contracts";
+import {
+  encodeOfferCode,
+  listSignedOffers,
+  removeSignedOffer,
+  type SignedOfferEntry,
+} from "../lib/offerBook";
+
+interface SignedOffersPanelProps {
+  contract: Contract | null;
+  landId: string;
+  ownerAddress: string;
+  address: string | null;
+  metadataCID: string;
+  // Called after an offer is accepted so the page can reload the parcel
+  onAccepted: () => void;
+}
+
+interface OfferRow {
+  entry: SignedOfferEntry;
+  state: SignedOfferState;
+  token: PaymentToken | null;
+}
+
+/**
+ * The local book of EIP-712 signed offers on a parcel. The owner accepts open
+ * offers; buyers cancel their own; expired or used ones can be cleared.
+ * Buyers copy an offer code to send the owner, who imports it here.
+ */
+export default function SignedOffersPanel({
+  contract,
+  landId,
+  ownerAddress,
+  address,
+  metadataCID,
+  onAccepted,
+}: SignedOffersPanelProps) {
+  const [rows, setRows] = useState<OfferRow[]>([]);
+  const [busyNonce, setBusyNonce] = useState<bigint | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [offerCode, setOfferCode] = useState("");
+  // Nonce of the offer whose code was just copied
+  const [copiedNonce, setCopiedNonce] = useState<bigint | null>(null);
+
+  const loadOffers = useCallback(async () => {
+    if (!contract) return;
+    const entries = listSignedOffers(landId);
+    const loaded = await Promise.all(
+      entries.map(async (entry) => {
+        const [state, token] = await Promise.all([
+          fetchSignedOfferState(contract, entry.offer),
+          fetchPaymentToken(contract, entry.offer.token).catch(() => null),
+        ]);
+        return { entry, state, token };
+      })
+    );
+    setRows(loaded);
+  }, [contract, landId]);
+
+  useEffect(() => {
+    loadOffers().catch((err) => console.error(`Signed offers failed for id=${landId}:`, err));
+  }, [loadOffers, landId]);
+
+  const run = async (entry: SignedOfferEntry, action: () => Promise<void>, closes: boolean) => {
+    setBusyNonce(entry.offer.nonce);
+    setError(null);
+    try {
+      await action();
+      if (closes) onAccepted();
+      else await loadOffers();
+    } catch (err) {
+      console.error("Signed offer action failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyNonce(null);
+    }
+  };
+
+  const isOwner = address?.toLowerCase() === ownerAddress.toLowerCase();
+  if (rows.length === 0 && !isOwner) return null;
+
+  const handleImport = async () => {
+    setError(null);
+    try {
+      importSignedOffer(landId, offerCode);
+      setOfferCode("");
+      await loadOffers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCopy = async (entry: SignedOfferEntry) => {
+    setError(null);
+    try {
+      await navigator.clipboard.writeText(encodeOfferCode(entry));
+      setCopiedNonce(entry.offer.nonce);
+    } catch (err) {
+      console.error("Copying the offer code failed:", err);
+      setError("Could not copy the offer code");
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-600 mb-2 inline-flex items-center">
+        <PenLine className="w-4 h-4 mr-2" />
+        Signed Offers
+      </h3>
+      {rows.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {rows.map(({ entry, state, token }) => {
+            const { offer } = entry;
+            const isBuyer = address?.toLowerCase() === offer.buyer.toLowerCase();
+            const busy = busyNonce === offer.nonce;
+            return (
+              <li
+                key={`${offer.buyer}-${offer.nonce}`}
+                className="px-4 py-3 flex items-center justify-between text-sm"
+              >
+                <div>
+                  <p
+                    className={`font-semibold ${
+                      state === "open" ? "text-gray-900" : "text-gray-400 line-through"
+                    }`}
+                  >
+                    {token ? `${formatUnits(offer.amount, token.decimals)} ${token.symbol}` : "…"}
+                  </p>
+                  <p className="text-xs text-gray-500 font-mono truncate max-w-xs">{offer.buyer}</p>
+                  <p className="text-xs text-gray-500">
+                    {state === "open"
+                      ? `Valid until ${new Date(Number(offer.expiry) * 1000).toLocaleString("en-MY")}`
+                      : state === "expired"
+                      ? "Expired"
+                      : "Accepted or cancelled"}
+                  </p>
+                </div>
+                {state === "open" && isOwner ? (
+                  <button
+                    className="text-white bg-green-600 hover:bg-green-700 px-2 py-1 rounded disabled:opacity-50"
+                    disabled={busy}
+                    onClick={() => run(entry, () => acceptSignedOffer(entry, metadataCID), true)}
+                  >
+                    {busy ? "Accepting..." : "Accept"}
+                  </button>
+                ) : state === "open" && isBuyer ? (
+                  <div className="space-x-3">
+                    <button
+                      className="text-blue-600 hover:text-blue-800"
+                      onClick={() => handleCopy(entry)}
+                    >
+                      {copiedNonce === offer.nonce ? "Copied" : "Copy Code"}
+                    </button>
+                    <button
+                      className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                      disabled={busy}
+                      onClick={() => run(entry, () => cancelSignedOffer(entry), false)}
+                    >
+                      {busy ? "Cancelling..." : "Cancel"}
+                    </button>
+                  </div>
+                ) : state !== "open" ? (
+                  <button
+                    className="text-gray-500 hover:text-gray-700"
+                    onClick={() => {
+                      removeSignedOffer(offer.buyer, offer.nonce);
+                      loadOffers();
+                    }}
+                  >
+                    Clear
+                  </button>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {isOwner && (
+        <div className="mt-2 flex gap-2">
+          <input
+            type="text"
+            placeholder="Paste an offer code from a buyer"
+            value={offerCode}
+            onChange={(e) => setOfferCode(e.target.value)}
+            className="flex-1 px-3 py-1 border border-gray-300 rounded-md font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleImport}
+            disabled={!offerCode.trim()}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            Import
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">Error: {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+// src/components/WithdrawPanel.tsx
+import { useState, useEffect, useCallback } from "react";
+import { Wallet } from "lucide-react";
+import { formatEther, formatUnits, type Contract } from "ethers";
+import {
+  fetchWithdrawableBalance,
+  fetchWithdrawableTokenBalances,
+  withdrawBalance,
+  withdrawTokenBalance,
+  getCurrentRate,
+  type PaymentToken,
+} from "../lib/contracts";
+import { type ExchangeRate } from "../lib/exchangeRate";
+import { formatRM, weiToSen } from "../lib/money";
+
+interface WithdrawPanelProps {
+  contract: Contract | null;
+  address: string | null;
+  // Bump after any transaction that may credit the wallet to reload the balance
+  refreshKey: number;
+}
+
+/**
+ * Shows sale proceeds and refunds credited to the connected wallet and lets
+ * the user withdraw them
+ */
+export default function WithdrawPanel({ contract, address, refreshKey }: WithdrawPanelProps) {
+  const [balanceWei, setBalanceWei] = useState<bigint>(0n);
+  const [tokenBalances, setTokenBalances] = useState<{ token: PaymentToken; amount: bigint }[]>([]);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rate, setRate] = useState<ExchangeRate | null>(null);
+
+  const loadBalance = useCallback(async () => {
+    if (!contract || !address) return;
+    try {
+      const [wei, tokens] = await Promise.all([
+        fetchWithdrawableBalance(contract, address),
+        fetchWithdrawableTokenBalances(contract, address),
+      ]);
+      setBalanceWei(wei);
+      setTokenBalances(tokens);
+    } catch (err) {
+      console.error("Failed to load withdrawable balance:", err);
+    }
+  }, [contract, address]);
+
+  useEffect(() => {
+    loadBalance();
+  }, [loadBalance, refreshKey]);
+
+  useEffect(() => {
+    getCurrentRate()
+      .then(setRate)
+      .catch((err) => console.warn("MYR/ETH rate unavailable:", err));
+  }, [refreshKey]);
+
+  // tokenAddress undefined = the ETH balance
+  const handleWithdraw = async (tokenAddress?: string) => {
+    setIsWithdrawing(true);
+    setError(null);
+    try {
+      const tx = tokenAddress ? await withdrawTokenBalance(tokenAddress) : await withdrawBalance();
+      await tx.wait();
+      await loadBalance();
+    } catch (err) {
+      console.error("Withdrawal failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  if (!address) return null;
+
+  const balanceEth = formatEther(balanceWei);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 rounded-full text-yellow-600 bg-yellow-50">
+            <Wallet className="w-6 h-6" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Balance available to withdraw</p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {balanceEth} ETH
+              {rate && (
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  ≈ RM {formatRM(weiToSen(balanceWei, rate.senPerEth))}
+                </span>
+              )}
+            </p>
+            <p className="text-xs text-gray-500">
+              Sale proceeds and refunded offers or purchase requests
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => handleWithdraw()}
+          disabled={isWithdrawing || balanceWei === 0n}
+          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+        >
+          {isWithdrawing ? "Withdrawing..." : "Withdraw"}
+        </button>
+      </div>
+      {tokenBalances.length > 0 && (
+        <ul className="mt-4 pt-4 border-t border-gray-200 space-y-2">
+          {tokenBalances.map(({ token, amount }) => (
+            <li key={token.address} className="flex items-center justify-between">
+              <span className="text-lg font-semibold text-gray-900">
+                {formatUnits(amount, token.decimals)} {token.symbol}
+              </span>
+              <button
+                onClick={() => handleWithdraw(token.address)}
+                disabled={isWithdrawing}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                Withdraw {token.symbol}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="mt-3 text-sm text-red-600">Error: {error}</p>}
+    </div>
+  );
+}
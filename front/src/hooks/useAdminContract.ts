@@ -0,0 +1,51 @@
+// src/hooks/useAdminContract.ts
+import { useEffect, useState } from "react";
+import type { Contract } from "ethers";
+import { getReadOnlyContract, isRegistryOwner } from "../lib/contracts";
+import { useAuth } from "../AuthContext";
+
+/**
+ * The read-only LandRegistry contract for the admin pages, and whether the
+ * signed-in account is the contract owner. Admin writes sign through
+ * connectAccount as everywhere else.
+ */
+export function useAdminContract(): {
+  contract: Contract | null;
+  isOwner: boolean;
+  isChecking: boolean;
+} {
+  const { address } = useAuth();
+  const [contract, setContract] = useState<Contract | null>(null);
+  const [isOwner, setIsOwner] = useState(false);
+  const [isChecking, setIsChecking] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function init() {
+      setIsChecking(true);
+      try {
+        const registry = getReadOnlyContract();
+        const owner = address ? await isRegistryOwner(registry, address) : false;
+        if (cancelled) return;
+        setContract(address ? registry : null);
+        setIsOwner(owner);
+      } catch (err) {
+        console.error("Failed to check registry owner:", err);
+        if (!cancelled) {
+          setContract(null);
+          setIsOwner(false);
+        }
+      } finally {
+        if (!cancelled) setIsChecking(false);
+      }
+    }
+
+    init();
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  return { contract, isOwner, isChecking };
+}
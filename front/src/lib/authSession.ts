@@ -0,0 +1,100 @@
+// src/lib/authSession.ts
+
+/**
+ * Client for the Sign-In with Ethereum session service (scripts/auth-server.mjs).
+ *
+ * The service issues single-use nonces, verifies the signed SIWE message and
+ * returns an expiring session token. The token is kept in localStorage and
+ * checked with the service again on reload; an address alone is never trusted.
+ */
+
+const STORAGE_KEY = "bcland-auth-session";
+
+const AUTH_URL: string = import.meta.env.VITE_AUTH_URL || "http://127.0.0.1:8787";
+
+export interface AuthSession {
+  token: string;
+  address: string; // checksummed
+  chainId: number;
+  expiresAt: number; // unix milliseconds
+}
+
+/** The service answered with an error status; network failures surface as fetch's TypeError */
+export class AuthServiceError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "AuthServiceError";
+    this.status = status;
+  }
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(`${AUTH_URL}${path}`, init);
+  if (res.status === 204) return undefined as T;
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new AuthServiceError(res.status, body.error || `Auth service returned ${res.status}`);
+  }
+  return body as T;
+}
+
+/** A fresh nonce to put in the SIWE message */
+export async function fetchNonce(): Promise<string> {
+  const { nonce } = await request<{ nonce: string }>("/nonce");
+  return nonce;
+}
+
+/** Exchange a signed SIWE message for a session; throws if the service rejects it */
+export async function verifySignIn(message: string, signature: string): Promise<AuthSession> {
+  return request<AuthSession>("/verify", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+}
+
+/**
+ * The session `token` stands for, or null if the service rejects it (expired,
+ * logged out, or signed with a different secret). Throws when the service is
+ * unreachable or fails otherwise, so an outage does not end the session.
+ */
+export async function fetchSession(token: string): Promise<AuthSession | null> {
+  try {
+    const session = await request<Omit<AuthSession, "token">>("/session", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    return { ...session, token };
+  } catch (err) {
+    if (err instanceof AuthServiceError && err.status === 401) return null;
+    throw err;
+  }
+}
+
+/** Revoke the token on the service; failures are ignored since the session is dropped locally anyway */
+export async function endSession(token: string): Promise<void> {
+  try {
+    await request<void>("/logout", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  } catch (err) {
+    console.warn("Auth service logout failed:", err);
+  }
+}
+
+export function loadStoredSession(): AuthSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as AuthSession) : null;
+    return parsed && parsed.expiresAt > Date.now() ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeSession(session: AuthSession | null): void {
+  if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  else localStorage.removeItem(STORAGE_KEY);
+}
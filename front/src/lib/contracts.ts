@@ -1,12 +1,72 @@
 // ========== ここから：GovLand/src/lib/contracts.ts ==========
-import { ethers, Contract, formatEther } from "ethers";
-import lighthouse from "@lighthouse-web3/sdk";     // ← 追加
-import { getWeb3ProviderAndSigner } from "./provider";
+import { ethers, Contract, ZeroAddress, formatEther } from "ethers";
+import { getLocalhostProvider, getWeb3ProviderAndSigner } from "./provider";
+import { NETWORK, isExpectedChain, wrongNetworkMessage } from "./network";
+import { getMetadataStore } from "./metadataStore";
+import {
+  buildLandMetadata,
+  buildUserMetadata,
+  parseLandMetadata,
+  parseUserMetadata,
+  type LandMetadata,
+  type UserMetadata,
+  type UserMetadataInput,
+} from "./metadataSchema";
+import {
+  createCoinGeckoRateProvider,
+  createFixtureRateProvider,
+  createManualRateProvider,
+  rateSourceFromEnv,
+  type ExchangeRate,
+  type RateProvider,
+} from "./exchangeRate";
+import {
+  formatRM,
+  parseRM,
+  senToDecimal,
+  senToTokenUnits,
+  senToWei,
+  tokenUnitsToSen,
+  weiToSen,
+} from "./money";
+import {
+  decodeOfferCode,
+  saveSignedOffer,
+  removeSignedOffer,
+  type SignedOffer,
+  type SignedOfferEntry,
+} from "./offerBook";
 import LandRegistryABI from "../../../block/artifacts/contracts/LandRegistry.sol/LandRegistry.json";
-import kavach from '@lighthouse-web3/kavach';
+import LandFeesABI from "../../../block/artifacts/contracts/LandFees.sol/LandFees.json";
+import LandEligibilityABI from "../../../block/artifacts/contracts/LandEligibility.sol/LandEligibility.json";
 
 const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS!;
-export const RM_PER_ETH = 4000;
+// LandRegistry.LandStatus.Rejected
+const LAND_STATUS_REJECTED = 5;
+// LandRegistry.LandStatus names, indexed by their on-chain value
+export const LAND_STATUS_NAMES = [
+  "Active",
+  "ForSale",
+  "PendingApproval",
+  "Approved",
+  "PendingVerification",
+  "Rejected",
+  "InAuction",
+] as const;
+export type LandStatusName = (typeof LAND_STATUS_NAMES)[number];
+
+// Mirrors LandRegistry._isOwnerTransition: the only status changes an owner can
+// make directly (InAuction through startLandAuction). Everything else happens
+// through staff review, the purchase flow or auction settlement.
+export const OWNER_STATUS_TRANSITIONS: Record<LandStatusName, readonly LandStatusName[]> = {
+  Active: ["ForSale", "InAuction"],
+  ForSale: ["Active"],
+  PendingApproval: [],
+  Approved: ["ForSale", "Active", "InAuction"],
+  PendingVerification: [],
+  Rejected: [],
+  InAuction: [],
+};
 
 export interface YourLand {
   landId: string;
@@ -21,6 +81,8 @@ export interface YourLand {
   timestamp: string;
   owner: string;  
   metadataCID: string;    
+  rejectionReason?: string;
+  saleInfo?: SaleInfo; // only filled in by fetchAllLands
 }
 
 /**
@@ -35,6 +97,10 @@ export async function connectAccount(): Promise<{
   const ws = await getWeb3ProviderAndSigner();
   if (!ws) return null;
 
+  // 別チェーンでは CONTRACT_ADDRESS にコントラクトがなく BAD_DATA になるので先に弾く
+  const { chainId } = await ws.provider.getNetwork();
+  if (!isExpectedChain(chainId)) throw new Error(wrongNetworkMessage(chainId));
+
   // v6 では getAddress() も await 必須
   const userAddress = await ws.signer.getAddress();
 
@@ -48,6 +114,17 @@ export async function connectAccount(): Promise<{
   return { signer: ws.signer, contract, userAddress };
 }
 
+let readOnlyContract: Contract | null = null;
+
+/**
+ * 読み取り専用の Contract（VITE_RPC_URL の JsonRpcProvider）
+ * ウォレット不要なので未ログインの閲覧者も使える。署名は書き込み時の connectAccount() だけで求める
+ */
+export function getReadOnlyContract(): Contract {
+  readOnlyContract ??= new Contract(CONTRACT_ADDRESS, LandRegistryABI.abi, getLocalhostProvider());
+  return readOnlyContract;
+}
+
 /**
  * 既存のユーザーかを roles() でチェックして、未登録なら selfRegisterUser()
  * v6 では ethers.TransactionResponse を返す
@@ -68,12 +145,7 @@ export async function connectAccount(): Promise<{
 export async function registerUserWithCID(
   contract: Contract,
   userAddress: string,
-  userData: {
-    email: string;
-    firstName: string;
-    lastName: string;
-    phoneNumber: string;
-  }
+  userData: UserMetadataInput
 ): Promise<ethers.TransactionResponse> {
   // 1) 事前に roles[userAddress] をチェックしておく（Solidity の require と重複するがフロントでもチェックしておく）
   const roleBN = await contract.roles(userAddress);
@@ -82,20 +154,12 @@ export async function registerUserWithCID(
     throw new Error("Already registered as user");
   }
 
-  // 2) ユーザー情報を JSON にまとめて IPFS (Lighthouse) にアップロードする
-  // ──────────────────────────────────────────────────────────
-  // ここでは userData を文字列化し Blob → File オブジェクトに変換してアップする
-  const jsonString = JSON.stringify(userData);
-  const blob = new Blob([jsonString], { type: "application/json" });
-  const file = new File([blob], "user_metadata.json");
-  // Lighthouse SDK の upload() を呼び出し。第二引数には VITE_LIGHTHOUSE_API_KEY! を渡す
-  const uploadResponse = await lighthouse.upload(
-    [file],
-    import.meta.env.VITE_LIGHTHOUSE_API_KEY!
+  // 2) ユーザー情報を JSON にまとめて MetadataStore (IPFS) にアップロードする
+  //    スキーマ検証に失敗した場合はアップロード前に MetadataSchemaError を投げる
+  const cid: string = await getMetadataStore().uploadJson(
+    buildUserMetadata(userData),
+    "user_metadata.json"
   );
-  // uploadResponse.data.Hash に IPFS の CID が入っている
-  const cid: string = uploadResponse.data.Hash;
-  // ──────────────────────────────────────────────────────────
 
   // 3) IPFS の CID を引数にして、Solidity の registerUserWithCID() を呼び出す
   //    ここで「require(roles[msg.sender] == Role.None)」が通れば、トランザクション成功
@@ -172,9 +236,9 @@ export async function getMyLands(
 
   // 2) 取得した landId ごとにメタデータをフェッチするプロミスを生成
   const fetchPromises = landIds.map(async (id) => {
-    // コントラクトから (Land, owner) を返す getLand() を呼び出す
-    // ※ Land 型には status, metadataCID が含まれているものとする
-    const [landOnchain, owner, publicCID] = await contract.getLand(id);
+    // getLandsPage の 1 件分から (Land, owner, publicCID) を取り出す
+    const landOnchain = await fetchLandDetails(contract, id.toString());
+    const { owner, publicCID } = landOnchain;
 
     console.log("Public CID:", publicCID);
 
@@ -183,26 +247,13 @@ export async function getMyLands(
     // メタデータとして保存している CID（文字列）
     const cid: string = landOnchain.metadataCID;
 
-    // 3) IPFS のゲートウェイ一覧（必要に応じて他のゲートウェイも追加可）
-    const gateways = [
-      `https://gateway.lighthouse.storage/ipfs/${publicCID}`,
-    ];
-
-    let jsonMeta:
-      | { address: string; description: string }
-      | null = null;
+    let jsonMeta: LandMetadata | null = null;
 
-    // 4) ゲートウェイを順番に試行してメタデータをフェッチ
-    for (const gatewayURL of gateways) {
-      try {
-        const resp = await fetch(gatewayURL, { cache: "no-store" });
-        if (resp.ok) {
-          jsonMeta = await resp.json();
-          break;
-        }
-      } catch (e) {
-        console.warn(`IPFS fetch failed at ${gatewayURL}: ${(e as Error).message}`);
-      }
+    // 3-4) MetadataStore からメタデータをフェッチ（スキーマ検証・移行込み）
+    try {
+      jsonMeta = await fetchLandMetadata(publicCID);
+    } catch (e) {
+      console.warn(`IPFS fetch failed for ${publicCID}: ${(e as Error).message}`);
     }
 
     // 5) 万一フェッチできなかった場合はエラーメッセージを埋め込む
@@ -215,12 +266,12 @@ export async function getMyLands(
       };
     }
 
-    // 6) 正常フェッチできた場合は、返すオブジェクトに住所と説明を入れる
+    // 6) 正常フェッチできた場合は、タイトル番号と種別・面積を入れる
     return {
       landId: id.toString(),
       status: statusCode,
-      address: jsonMeta.address,
-      description: jsonMeta.description,
+      address: jsonMeta.titleNumber,
+      description: `${jsonMeta.landType}, ${jsonMeta.area}`,
     };
   });
 
@@ -235,15 +286,11 @@ export async function getMyLands(
 /**
  * getUserMetadata(address)
  *  コントラクトの userMetadataCID マッピングから CID を取得し、
- *  Lighthouse の IPFS ゲートウェイを経由してメタデータ JSON をフェッチして返す
+ *  MetadataStore を経由してメタデータ JSON をフェッチして返す
  */
-export async function getUserMetadata(userAddress: string): Promise<any> {
-  // コントラクトへの接続を確立
-  const ws = await connectAccount()
-  if (!ws) {
-    throw new Error("connectAccount() に失敗しました")
-  }
-  const { contract } = ws
+export async function getUserMetadata(userAddress: string): Promise<UserMetadata> {
+  // 読み取りだけなのでウォレットは不要
+  const contract = getReadOnlyContract()
 
   // ① Solidity の mapping(address => string) userMetadataCID を参照
   const cid: string = await contract.userMetadataCID(userAddress)
@@ -251,17 +298,16 @@ export async function getUserMetadata(userAddress: string): Promise<any> {
     throw new Error(`アドレス ${userAddress} に対応するメタデータCIDが見つかりません`)
   }
 
-  // ② Lighthouse のゲートウェイ URL を構築
-  const gatewayUrl = `https://gateway.lighthouse.storage/ipfs/${cid}`
-
-  // ③ fetch で IPFS 上の JSON を取得
-  const response = await fetch(gatewayUrl)
-  if (!response.ok) {
-    throw new Error(`IPFS からのフェッチに失敗しました: ${response.status}`)
-  }
-  const metadata = await response.json()
+  // ② MetadataStore 経由で IPFS 上の JSON を取得し、スキーマ検証（旧版は移行）
+  return parseUserMetadata(await getMetadataStore().fetchJson(cid))
+}
 
-  return metadata
+/**
+ * Public land metadata for `publicCID`, upgraded to the latest schema version.
+ * Throws MetadataSchemaError when the document does not validate.
+ */
+async function fetchLandMetadata(publicCID: string): Promise<LandMetadata> {
+  return parseLandMetadata(await getMetadataStore().fetchJson(publicCID));
 }
 // ========== ここまで ==========
 // ────────── 変更後：src/lib/contracts.ts ──────────
@@ -269,7 +315,7 @@ export async function getUserMetadata(userAddress: string): Promise<any> {
 
 /**
  * listingLand:
- *  1) Geran ファイルを IPFS(Lighthouse) にアップロードして geranCid を取得
+ *  1) Geran ファイルを MetadataStore(IPFS) にアップロードして geranCid を取得
  *  2) メタデータ(JSON) を IPFS にアップロードして metadataCid を取得
  *  3) コントラクトの registerLand(userAddress, metadataCid) を呼び出す
  */
@@ -285,54 +331,41 @@ export async function listingLand(
     throw new Error("MetaMask 接続に失敗しました。");
   }
   const { contract, userAddress, signer } = ws;
+  const store = getMetadataStore();
+
+  // Reject a malformed price before anything is uploaded
+  const rate = await getCurrentRate();
+  const priceWei = rmAmountToWei(priceRM, rate);
+
+  // 2) Geran ファイルを暗号化して MetadataStore にアップロードし、geranCid を取得
+  const geranCid: string = await store.uploadEncrypted(geranFile, userAddress, signer);
+  // Staff (and the registry owner) verify the geran before approving, so they may decrypt it too
+  const reviewers = await fetchGeranReviewers(getReadOnlyContract());
+  if (reviewers.length > 0) {
+    await store.shareEncrypted(geranCid, userAddress, signer, reviewers);
+  }
 
-  const challenge = (await kavach.getAuthMessage(userAddress)).message!;
-  const signature = await signer.signMessage(challenge);
-
-  // 2) Geran ファイルを Lighthouse(IPFS) にアップロードし、geranCid を取得
-  const uploadCertResp = await lighthouse.uploadEncrypted(
-    [geranFile],
-    import.meta.env.VITE_LIGHTHOUSE_API_KEY!,
-    userAddress,
-    signature
-  );
-  const geranCid: string = uploadCertResp.data[0].Hash;
-
-  // 3) メタデータオブジェクトを作成 (area はモック)
-  const metadataObj = {
+  // 3) メタデータオブジェクトを作成・検証 (area はモック)
+  const metadataObj = buildLandMetadata({
     titleNumber,
     landType,
     username,
     area: "100 m2",
     geranCid,
     timestamp: new Date().toISOString(),
-  };
-
-  // 4) JSON → Blob → File に変換し、メタデータを Lighthouse にアップロード
-  const jsonString = JSON.stringify(metadataObj);
-  const blob = new Blob([jsonString], { type: "application/json" });
-  const metaFile = new File([blob], "land_listing_metadata.json");
-
-  const uploadMetaResp = await lighthouse.upload(
-    [metaFile],
-    import.meta.env.VITE_LIGHTHOUSE_API_KEY!
-  );
-  const publicCid: string = uploadMetaResp.data.Hash;
+  });
 
-  // 5) RM → ETH (Wei) に変換
-  //    (ここでは priceRM を「ETH 表記」として parseEther)
-const rmValue = parseFloat(priceRM);
-  const ethValue = rmValue / RM_PER_ETH;
-  if (ethValue <= 0) throw new Error("Price must be at least MYR 4000");
+  // 4) メタデータを JSON として MetadataStore にアップロード
+  const publicCid: string = await store.uploadJson(metadataObj, "land_listing_metadata.json");
 
-  // 小数点以下を文字列化して parseEther
-  const priceWei = ethers.parseEther(ethValue.toString());
-  // 6) Solidity の新 registerLand(address to, string metadataCID, uint256 priceWei) を呼び出し
+  // 5) RM → ETH (Wei) は上で現在のレートで変換済み。レートも一緒に記録する
+  // 6) Solidity の registerLand(to, metadataCID, publicCID, priceWei, rateSenPerEth) を呼び出し
   const tx = await contract.registerLand(
     userAddress,
     geranCid,
     publicCid,
-    priceWei
+    priceWei,
+    rate.senPerEth
   );
     console.log("Transfer to Contract Public CID:", publicCid);
 
@@ -348,41 +381,33 @@ export async function getYourLands(
 ): Promise<YourLand[]> {
   // 1) 「自身がオーナーの landId の配列」を取得
   const landIds: bigint[] = await contract.getOwnedLands(userAddress);
+  const currentRate = await getCurrentRateOrNull();
 
   const fetchPromises = landIds.map(async (idBigint) => {
     const id = idBigint.toString();
 
-    // getLand は (Land, owner) を返す想定
-    const [
-      landOnchain,
-      ownerAddr,
-      publicCID
-    ]: [
-      { landId: bigint; status: number; metadataCID: string },
-      string,
-      string
-    ] = await contract.getLand(idBigint);
-
-    const { status: statusCode, metadataCID } = landOnchain;
+    // The record, owner and price all come from one getLandsPage entry;
+    // the price lives on-chain, not in the metadata document
+    const {
+      status: statusCode,
+      metadataCID,
+      owner: ownerAddr,
+      publicCID,
+      priceWei: price,
+      paymentToken,
+      listingRateSenPerEth: listingRate,
+    } = await fetchLandDetails(contract, id);
+    const priceRM = await formatPriceRM(contract, price, paymentToken, listingRate, currentRate);
 
     // IPFS metadata fetch
-    let jsonMeta: {
-      titleNumber: string;
-      landType: string;
-      username: string;
-      priceRM: string;
-      area: string;
-      geranCid: string;
-      timestamp: string;
-    } | null = null;
+    let jsonMeta: LandMetadata | null = null;
 
     try {
-      const resp = await fetch(
-        `https://gateway.lighthouse.storage/ipfs/${publicCID}`,
-        { cache: "no-store" }
-      );
-      if (resp.ok) jsonMeta = (await resp.json()) as any;
-    } catch {}
+      jsonMeta = await fetchLandMetadata(publicCID);
+    } catch (e) {
+      // Keep the on-chain part of the record; metadata fields stay blank
+      console.warn(`Land ${id} metadata unavailable: ${(e as Error).message}`);
+    }
 
     if (!jsonMeta) {
       return {
@@ -391,7 +416,7 @@ export async function getYourLands(
         titleNumber: "",
         landType: "",
         username: "",
-        priceRM: "",
+        priceRM,
         area: "",
         geranCid: "",
         geranUrl: "",
@@ -405,7 +430,6 @@ export async function getYourLands(
       titleNumber,
       landType,
       username,
-      priceRM,
       area,
       geranCid,
       timestamp,
@@ -420,7 +444,7 @@ export async function getYourLands(
       priceRM,
       area,
       geranCid,
-      geranUrl: `https://gateway.lighthouse.storage/ipfs/${geranCid}`,
+      geranUrl: getMetadataStore().gatewayUrl(geranCid),
       timestamp,
       owner: ownerAddr,
       metadataCID,
@@ -432,9 +456,7 @@ export async function getYourLands(
 
 export async function fetchLandPrice(landId: number): Promise<string> {
   try {
-    const provider = new ethers.BrowserProvider(window.ethereum); // MetaMask injected
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(CONTRACT_ADDRESS, LandRegistryABI.abi, signer);
+    const contract = getReadOnlyContract();
 
     const price: bigint = await contract.landPrices(landId);
     return ethers.formatEther(price); // convert from wei to ETH string
@@ -444,103 +466,246 @@ export async function fetchLandPrice(landId: number): Promise<string> {
   }
 }
 
-export async function fetchAllLands(
-  contract: Contract
-): Promise<YourLand[]> {
-  const landIds: bigint[] = await contract.getAllLandIds();
+// Parcels per getLandsPage call
+export const LAND_PAGE_SIZE = 50;
 
-  const fetchPromises = landIds.map(async (idBigint) => {
-    const id = idBigint.toString();
+type RawLandDetails = {
+  land: { landId: bigint; status: bigint; metadataCID: string };
+  owner: string;
+  publicCID: string;
+  priceWei: bigint;
+  paymentToken: string;
+  listingRateSenPerEth: bigint;
+  pendingBuyer: string;
+  purchaseDeadline: bigint;
+  escrowedAmount: bigint;
+  completionDeadline: bigint;
+  verifiedBy: string;
+  rejectionReason: string;
+};
+
+function toLandDetails(d: RawLandDetails): LandOnchainDetails {
+  return {
+    landId: d.land.landId.toString(),
+    status: Number(d.land.status),
+    metadataCID: d.land.metadataCID,
+    owner: d.owner,
+    publicCID: d.publicCID,
+    priceWei: d.priceWei,
+    paymentToken: d.paymentToken,
+    listingRateSenPerEth: d.listingRateSenPerEth,
+    pendingBuyer: d.pendingBuyer,
+    purchaseDeadline: Number(d.purchaseDeadline),
+    escrowedAmount: d.escrowedAmount,
+    completionDeadline: Number(d.completionDeadline),
+    verifiedBy: d.verifiedBy,
+    rejectionReason: d.rejectionReason,
+  };
+}
 
-    const [
-      landOnchain,
-      ownerAddr,
-      publicCID
-    ]: [
-      { landId: bigint; status: number; metadataCID: string },
-      string,
-      string
-    ] = await contract.getLand(idBigint);
-
-    console.log("Fetched from Contract Public CID:", publicCID);
-
-    const { status: statusCode, metadataCID } = landOnchain;
-
-    // Fetch land price from contract
-    const priceWei: bigint = await contract.landPrices(idBigint);
-    const ethValue = parseFloat(formatEther(priceWei)); // ETH value as number
-    const PriceRM = ethValue * RM_PER_ETH;               // convert to RM
-    const priceRM = PriceRM.toFixed(2);                  // string with 2 decimals
-    // IPFS metadata fetch (excluding priceRM)
-    let jsonMeta: {
-      titleNumber: string;
-      landType: string;
-      nric: string;
-      username: string;
-      area: string;
-      geranCid: string;
-      timestamp: string;
-    } | null = null;
+/**
+ * One page of parcels (on-chain record, owner, public CID and sale state)
+ * from a single getLandsPage call
+ */
+export async function fetchLandDetailsPage(
+  contract: Contract,
+  offset: number,
+  limit: number = LAND_PAGE_SIZE
+): Promise<{ lands: LandOnchainDetails[]; total: number }> {
+  const [page, total]: [RawLandDetails[], bigint] =
+    await contract.getLandsPage(offset, limit);
+  return { lands: page.map(toLandDetails), total: Number(total) };
+}
 
-    try {
-      const resp = await fetch(
-        `https://gateway.lighthouse.storage/ipfs/${publicCID}`,
-        { cache: "no-store" }
-      );
-      console.log(`https://gateway.lighthouse.storage/ipfs/${publicCID}`);
-      if (resp.ok) jsonMeta = (await resp.json()) as any;
-    } catch {}
+/**
+ * A single parcel's details, read as a one-entry page (IDs start at 1)
+ */
+export async function fetchLandDetails(
+  contract: Contract,
+  landId: string
+): Promise<LandOnchainDetails> {
+  const { lands } = await fetchLandDetailsPage(contract, Number(landId) - 1, 1);
+  if (lands.length === 0) throw new Error(`Land ${landId} not found`);
+  return lands[0];
+}
 
-    if (!jsonMeta) {
-      return {
-        landId: id,
-        status: statusCode,
-        titleNumber: "",
-        landType: "",
-        username: "",
-        area: "",
-        geranCid: "",
-        geranUrl: "",
-        timestamp: "",
-        owner: ownerAddr,
-        metadataCID,
-        priceRM,
-      };
-    }
+/**
+ * Every parcel, read page by page: the first page tells us the total,
+ * the remaining pages are requested in parallel
+ */
+async function fetchAllLandDetailsPaged(
+  contract: Contract,
+  pageSize: number = LAND_PAGE_SIZE
+): Promise<LandOnchainDetails[]> {
+  const first = await fetchLandDetailsPage(contract, 0, pageSize);
+  const offsets: number[] = [];
+  for (let offset = pageSize; offset < first.total; offset += pageSize) {
+    offsets.push(offset);
+  }
+  const rest = await Promise.all(
+    offsets.map((offset) => fetchLandDetailsPage(contract, offset, pageSize))
+  );
+  return [first, ...rest].flatMap((page) => page.lands);
+}
 
-    const {
-      titleNumber,
-      landType,
-      username,
-      area,
-      geranCid,
-      timestamp,
-    } = jsonMeta;
+function toSaleInfo(details: LandOnchainDetails): SaleInfo {
+  return {
+    priceWei: details.priceWei,
+    paymentToken: details.paymentToken,
+    listingRateSenPerEth: details.listingRateSenPerEth,
+    pendingBuyer: details.pendingBuyer,
+    purchaseDeadline: details.purchaseDeadline,
+    escrowedAmount: details.escrowedAmount,
+    completionDeadline: details.completionDeadline,
+  };
+}
+
+/**
+ * Turn one paged on-chain record into a YourLand by adding its public IPFS metadata.
+ * Shared by the marketplace listing and the staff verification queue.
+ */
+async function fetchLandRecord(
+  contract: Contract,
+  details: LandOnchainDetails,
+  currentRate: ExchangeRate | null
+): Promise<YourLand> {
+  const { landId: id, status: statusCode, metadataCID, publicCID } = details;
+  const ownerAddr = details.owner;
+
+  // Rejected parcels carry the reason staff gave
+  const rejectionReason =
+    statusCode === LAND_STATUS_REJECTED ? details.rejectionReason : "";
+
+  const priceRM = await formatPriceRM(
+    contract,
+    details.priceWei,
+    details.paymentToken,
+    details.listingRateSenPerEth,
+    currentRate
+  );
+  const saleInfo = toSaleInfo(details);
+  // IPFS metadata fetch (excluding priceRM)
+  let jsonMeta: LandMetadata | null = null;
 
+  try {
+    jsonMeta = await fetchLandMetadata(publicCID);
+  } catch (e) {
+    // Keep the on-chain part of the record; metadata fields stay blank
+    console.warn(`Land ${id} metadata unavailable: ${(e as Error).message}`);
+  }
+
+  if (!jsonMeta) {
     return {
       landId: id,
       status: statusCode,
-      titleNumber,
-      landType,
-      username,
-      area,
-      geranCid,
-      geranUrl: `https://gateway.lighthouse.storage/ipfs/${geranCid}`,
-      timestamp,
+      titleNumber: "",
+      landType: "",
+      username: "",
+      area: "",
+      geranCid: "",
+      geranUrl: "",
+      timestamp: "",
       owner: ownerAddr,
       metadataCID,
       priceRM,
+      rejectionReason,
+      saleInfo,
     };
-  });
+  }
 
-  return Promise.all(fetchPromises);
+  const {
+    titleNumber,
+    landType,
+    username,
+    area,
+    geranCid,
+    timestamp,
+  } = jsonMeta;
+
+  return {
+    landId: id,
+    status: statusCode,
+    titleNumber,
+    landType,
+    username,
+    area,
+    geranCid,
+    geranUrl: getMetadataStore().gatewayUrl(geranCid),
+    timestamp,
+    owner: ownerAddr,
+    metadataCID,
+    priceRM,
+    rejectionReason,
+    saleInfo,
+  };
+}
+
+/**
+ * All parcels for the marketplace, including each parcel's sale info.
+ * On-chain state comes from getLandsPage in pages of `pageSize`.
+ */
+export async function fetchAllLands(
+  contract: Contract,
+  pageSize: number = LAND_PAGE_SIZE
+): Promise<YourLand[]> {
+  const [details, currentRate] = await Promise.all([
+    fetchAllLandDetailsPaged(contract, pageSize),
+    getCurrentRateOrNull(),
+  ]);
+  return Promise.all(details.map((d) => fetchLandRecord(contract, d, currentRate)));
+}
+
+/**
+ * Parcels submitted by owners that are still waiting in the staff queue
+ */
+export async function fetchPendingVerificationLands(
+  contract: Contract
+): Promise<YourLand[]> {
+  const [details, currentRate] = await Promise.all([
+    fetchAllLandDetailsPaged(contract),
+    getCurrentRateOrNull(),
+  ]);
+  return Promise.all(
+    details
+      .filter((d) => d.status === LAND_STATUS_NAMES.indexOf("PendingVerification"))
+      .map((d) => fetchLandRecord(contract, d, currentRate))
+  );
+}
+
+/**
+ * Staff approve a submitted parcel; the contract lists it at its asking price
+ */
+export async function approveLandVerification(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.approveLandVerification(landId);
+}
+
+/**
+ * Staff reject a submitted parcel with a reason shown to the owner
+ */
+export async function rejectLandVerification(
+  landId: string,
+  reason: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  if (!reason.trim()) throw new Error("A rejection reason is required");
+
+  return await contract.rejectLandVerification(landId, reason.trim());
 }
 
 
 /**
- * 1) Owner lists a land for sale at `priceRM`
- * 2) priceRM → ETH (via RM_PER_ETH) → Wei (bigint)
- * 3) call contract.listLandForSale(landId, priceWei)
+ * 1) Owner lists an Active/Approved land for sale at `priceRM`
+ * 2) priceRM → Wei at the current rate; the rate is recorded with the listing
+ * 3) call contract.listForSale(landId, priceWei, rateSenPerEth)
  */
 export async function listLandForSale(
   landId: string,
@@ -550,21 +715,16 @@ export async function listLandForSale(
   if (!ws) throw new Error("MetaMask not connected");
   const { contract } = ws;
 
-  const rmValue = parseFloat(priceRM);
-  const ethValue = rmValue / RM_PER_ETH;
-  if (ethValue <= 0) throw new Error("Price must be positive");
-
-  // ethers.parseEther returns a bigint in v6
-  const priceWei: bigint = ethers.parseEther(ethValue.toString());
+  const rate = await getCurrentRate();
+  const priceWei = rmAmountToWei(priceRM, rate);
 
-  return await contract.listLandForSale(landId, priceWei);
+  return await contract.listForSale(landId, priceWei, rate.senPerEth);
 }
 
 /**
- * 1) Buyer requests to buy: sends exact ETH value
- * 2) call contract.requestToBuy(landId, { value: priceWei })
+ * Change the asking price of a parcel that is already ForSale
  */
-export async function requestToBuyLand(
+export async function updateListingPrice(
   landId: string,
   priceRM: string
 ): Promise<ethers.TransactionResponse> {
@@ -572,105 +732,1498 @@ export async function requestToBuyLand(
   if (!ws) throw new Error("MetaMask not connected");
   const { contract } = ws;
 
-  const rmValue = parseFloat(priceRM);
-  const ethValue = rmValue / RM_PER_ETH;
-  if (ethValue <= 0) throw new Error("Invalid price");
+  // Token listings are repriced in their token; the quote rate only applies to ETH
+  const paymentToken: string = await contract.listingToken(landId);
+  if (paymentToken !== ZeroAddress) {
+    const token = await fetchPaymentToken(contract, paymentToken);
+    return await contract.updateLandPrice(landId, rmAmountToTokenUnits(priceRM, token), 0n);
+  }
 
-  const priceWei: bigint = ethers.parseEther(ethValue.toString());
+  const rate = await getCurrentRate();
+  const priceWei = rmAmountToWei(priceRM, rate);
 
-  return await contract.requestToBuy(landId, { value: priceWei });
+  return await contract.updateLandPrice(landId, priceWei, rate.senPerEth);
 }
 
+/**
+ * Take a ForSale parcel off the market; open offers are refunded
+ */
+export async function delistLand(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
 
-  // Sign Kavach challenge
-  async function signAuthMessage(address: string, signer: ethers.Signer): Promise<string> {
-    const authResp = await kavach.getAuthMessage(address);
-    if (typeof authResp.message !== 'string') throw new Error('No Kavach auth challenge found');
-    return signer.signMessage(authResp.message);
-  }
+  return await contract.delist(landId);
+}
 
 /**
- * 1) Owner approves the purchase
- * 2) Transfers ownership on-chain to the buyer
+ * Mark a freshly purchased (Approved) parcel as Active without listing it
  */
-export async function approvePurchase(
-  landId: string,
-  buyerAddress: string,
-  privateCID: string
-): Promise<void> {
+export async function markLandActive(
+  landId: string
+): Promise<ethers.TransactionResponse> {
   const ws = await connectAccount();
   if (!ws) throw new Error("MetaMask not connected");
-  const { contract, userAddress, signer } = ws;
+  const { contract } = ws;
 
-  // First: execute the on-chain transfer
-  const tx = await contract.transferLandOwnership(landId, buyerAddress);
-  await tx.wait();
+  return await contract.delist(landId);
+}
 
-  // Then: transfer encrypted access off-chain via Lighthouse
-  const signature = await signAuthMessage(userAddress, signer);
+// ────────── Auctions ──────────
 
-  const transferNFT: any = await kavach.transferOwnership(
-    userAddress,
-    privateCID,
-    buyerAddress,
-    signature,
-    true
+export interface AuctionInfo {
+  reservePrice: bigint; // wei
+  minIncrement: bigint; // wei
+  endTime: number; // unix seconds
+  highestBidder: string; // ZeroAddress until the first bid
+  highestBid: bigint; // wei
+  highestBidFees: bigint; // wei escrowed on top of the highest bid for stamp duty and registration
+  refundableAt: number; // unix seconds after which an unsettled auction can be unwound with refundAuction
+}
+
+export async function fetchAuction(
+  contract: Contract,
+  landId: string
+): Promise<AuctionInfo> {
+  const [a, settlementPeriod] = await Promise.all([
+    contract.auctions(landId),
+    contract.AUCTION_SETTLEMENT_PERIOD(),
+  ]);
+  return {
+    reservePrice: a.reservePrice,
+    minIncrement: a.minIncrement,
+    endTime: Number(a.endTime),
+    highestBidder: a.highestBidder,
+    highestBid: a.highestBid,
+    highestBidFees: a.highestBidFees,
+    refundableAt: Number(a.endTime + settlementPeriod),
+  };
+}
+
+/**
+ * The smallest bid LandRegistry.bid accepts right now
+ */
+export function minimumNextBid(auction: AuctionInfo): bigint {
+  return auction.highestBidder === ZeroAddress
+    ? auction.reservePrice
+    : auction.highestBid + auction.minIncrement;
+}
+
+/**
+ * 1) Owner puts an Active/Approved land up for auction
+ * 2) reserveRM / incrementRM → Wei at the current rate
+ * 3) call contract.startAuction(landId, reserveWei, incrementWei, endTime)
+ */
+export async function startLandAuction(
+  landId: string,
+  reserveRM: string,
+  incrementRM: string,
+  durationSeconds: number
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  if (!(durationSeconds > 0)) throw new Error("Auction duration must be positive");
+  const rate = await getCurrentRate();
+  const endTime = Math.floor(Date.now() / 1000) + Math.floor(durationSeconds);
+
+  return await contract.startAuction(
+    landId,
+    rmAmountToWei(reserveRM, rate),
+    rmAmountToWei(incrementRM, rate),
+    endTime
   );
+}
 
-  if (transferNFT?.error) {
-    console.error("Lighthouse error response:", transferNFT.error);
-    // Warning: at this point, buyer owns land but can't access CID — handle fallback
-    throw new Error(
-      typeof transferNFT.error === "object"
-        ? JSON.stringify(transferNFT.error)
-        : transferNFT.error
-    );
-  }
+/**
+ * Bid `amountWei` on an auction, escrowing the fees on it as well;
+ * the outbid bidder's escrow is credited back to them
+ */
+export async function placeBid(
+  landId: string,
+  amountWei: bigint
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  const fees = await fetchOfferFeeQuote(contract, ZeroAddress, amountWei);
+  return await contract.bid(landId, amountWei, { value: amountWei + fees.total });
 }
 
 /**
- * Fetch current sale info (price and pending buyer).
- * Solidity getters return `uint256` → v6 becomes `bigint`
+ * Close an ended auction (anyone may call)
  */
-export async function getSaleInfo(
+export async function settleLandAuction(
   landId: string
-): Promise<{
-  priceWei: bigint;
-  pendingBuyer: string;
-}> {
+): Promise<ethers.TransactionResponse> {
   const ws = await connectAccount();
   if (!ws) throw new Error("MetaMask not connected");
   const { contract } = ws;
 
-  const priceWei: bigint = await contract.landPrices(landId); // Correct name
-  const pendingBuyer: string = await contract.pendingBuyer(landId);
-  return { priceWei, pendingBuyer };
+  return await contract.settleAuction(landId);
 }
 
-export async function handleViewGrant(cid: string) {
+/**
+ * Unwind an auction nobody settled in time (anyone may call); the highest bid and its fees are refunded
+ */
+export async function refundLandAuction(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
 
-   const ws = await connectAccount();
+  return await contract.refundAuction(landId);
+}
+
+/**
+ * Owner withdraws the land from auction before the first bid
+ */
+export async function cancelLandAuction(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
   if (!ws) throw new Error("MetaMask not connected");
-    const {userAddress, signer } = ws;
-  // 1) get your signed auth challenge
-  const signature = await signAuthMessage(userAddress, signer);
+  const { contract } = ws;
+
+  return await contract.cancelAuction(landId);
+}
+
+/**
+ * 1) Buyer requests to buy, escrowing the listing's deposit, or the full
+ *    listed price when it has none (the MYR figure may have moved since listing)
+ * 2) ETH listings: contract.requestToBuy(landId, { value: amountDue })
+ *    Token listings: contract.requestToBuy(landId) after approvePaymentToken
+ */
+export async function requestToBuyLand(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract, userAddress } = ws;
 
-  const keyObject = await lighthouse.fetchEncryptionKey(
-    cid,
+  const [price, amountDue, paymentToken]: [bigint, bigint, string] = await Promise.all([
+    contract.landPrices(landId),
+    contract.amountDueOnRequest(landId),
+    contract.listingToken(landId),
+  ]);
+  if (price === 0n) throw new Error("Land is not listed");
+
+  return await payInListingCurrency(
     userAddress,
-    signature
+    paymentToken,
+    amountDue,
+    (overrides) => contract.requestToBuy(landId, overrides)
   );
+}
 
-  if (!keyObject.data.key) {
-    throw new Error("Encryption key not found for the given CID.");
+/**
+ * Send `amount` with `call`: as msg.value for ETH listings, or after checking
+ * the registry may pull it for token listings
+ */
+async function payInListingCurrency(
+  userAddress: string,
+  paymentToken: string,
+  amount: bigint,
+  call: (overrides: { value?: bigint }) => Promise<ethers.TransactionResponse>
+): Promise<ethers.TransactionResponse> {
+  if (paymentToken === ZeroAddress) return await call({ value: amount });
+
+  const allowance = await fetchTokenAllowance(paymentToken, userAddress);
+  if (allowance < amount) {
+    throw new Error("Approve the registry to spend the amount due first");
   }
+  return await call({});
+}
 
-  // 2) decrypt via Lighthouse
-  const decrypted = await lighthouse.decryptFile(cid, keyObject.data.key, "application/pdf");
-  const url = URL.createObjectURL(decrypted);
 
-  console.log("Decryption Success");
+export interface LandOffer {
+  offerId: number;
+  buyer: string;
+  amountWei: bigint;
+  amountRM: string;
+  active: boolean;
+}
 
-  return url;
+/**
+ * Offers book of a parcel (active and closed), newest first
+ */
+export async function fetchOffers(
+  contract: Contract,
+  landId: string
+): Promise<LandOffer[]> {
+  const offers: { buyer: string; amount: bigint; active: boolean }[] =
+    await contract.getOffers(landId);
+  const rate = await getCurrentRateOrNull();
+
+  return offers
+    .map((o, offerId) => ({
+      offerId,
+      buyer: o.buyer,
+      amountWei: o.amount,
+      amountRM: rate ? senToDecimal(weiToSen(o.amount, rate.senPerEth)) : "",
+      active: o.active,
+    }))
+    .reverse();
 }
 
+/**
+ * 1) Buyer makes an offer of any amount in MYR
+ * 2) amountRM → Wei at the current rate, escrowed with the call plus the fees on it
+ */
+export async function makeOffer(
+  landId: string,
+  amountRM: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  const amountWei = rmAmountToWei(amountRM, await getCurrentRate());
+  const fees = await fetchOfferFeeQuote(contract, ZeroAddress, amountWei);
+
+  return await contract.makeOffer(landId, amountWei, { value: amountWei + fees.total });
+}
+
+/**
+ * Buyer withdraws an active offer; the escrowed ETH is credited to their withdrawable balance
+ */
+export async function withdrawOffer(
+  landId: string,
+  offerId: number
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.withdrawOffer(landId, offerId);
+}
+
+/**
+ * 1) Seller accepts one offer; the contract refunds every other active offer
+ * 2) Transfers encrypted geran access to the winning buyer
+ */
+export async function acceptOffer(
+  landId: string,
+  offer: LandOffer,
+  privateCID: string
+): Promise<void> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract, userAddress, signer } = ws;
+
+  const tx = await contract.acceptOffer(landId, offer.offerId);
+  await tx.wait();
+
+  await transferGeranAccess(userAddress, signer, privateCID, offer.buyer);
+}
+
+/**
+ * 1) Owner approves the purchase
+ * 2) Fully paid requests transfer ownership on-chain to the buyer right away;
+ *    a deposit only starts the completion period (see payPurchaseBalance)
+ */
+export async function approvePurchase(
+  landId: string,
+  buyerAddress: string,
+  privateCID: string
+): Promise<void> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract, userAddress, signer } = ws;
+
+  const [price, escrowed]: [bigint, bigint] = await Promise.all([
+    contract.landPrices(landId),
+    contract.escrowedAmount(landId),
+  ]);
+
+  // First: execute the on-chain transfer (or accept the deposit)
+  const tx = await contract.transferLandOwnership(landId, buyerAddress);
+  await tx.wait();
+
+  // Then: transfer encrypted access off-chain via the MetadataStore, once the land is theirs.
+  // Deposit sales complete when the buyer pays the balance; the seller releases the geran
+  // afterwards from GeranReleasePanel.
+  if (escrowed === price) {
+    await transferGeranAccess(userAddress, signer, privateCID, buyerAddress);
+  }
+}
+
+// ────────── Deposit and completion (SPA) ──────────
+
+export interface SaleTerms {
+  depositBps: number; // share of the price paid on request, 1000 = 10%; 0 = full price up front
+  completionPeriod: number; // seconds the buyer has to pay the balance after acceptance
+  forfeitOnDefault: boolean; // a missed deadline pays the deposit to the seller instead of refunding it
+}
+
+// Common Malaysian SPA terms: 10% on signing, balance within three months
+export const DEFAULT_SALE_TERMS: SaleTerms = {
+  depositBps: 1000,
+  completionPeriod: 90 * 24 * 60 * 60,
+  forfeitOnDefault: true,
+};
+
+export async function fetchSaleTerms(
+  contract: Contract,
+  landId: string
+): Promise<SaleTerms> {
+  const t = await contract.saleTerms(landId);
+  return {
+    depositBps: Number(t.depositBps),
+    completionPeriod: Number(t.completionPeriod),
+    forfeitOnDefault: t.forfeitOnDefault,
+  };
+}
+
+/**
+ * What a buyer escrows when requesting the land, in the listing's currency
+ */
+export async function fetchAmountDueOnRequest(
+  contract: Contract,
+  landId: string
+): Promise<bigint> {
+  return await contract.amountDueOnRequest(landId);
+}
+
+/**
+ * Owner sets the deposit and completion rules buyers of `landId` agree to.
+ * Set them before listing: the contract locks them while a purchase is pending.
+ */
+export async function updateSaleTerms(
+  landId: string,
+  terms: SaleTerms
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  if (!Number.isInteger(terms.depositBps) || terms.depositBps < 0 || terms.depositBps >= 10_000) {
+    throw new Error("Deposit must be between 0% and 99.99%");
+  }
+  if (terms.depositBps > 0 && !(terms.completionPeriod > 0)) {
+    throw new Error("A completion period is required when a deposit is taken");
+  }
+
+  return await contract.setSaleTerms(
+    landId,
+    terms.depositBps,
+    Math.floor(terms.completionPeriod),
+    terms.forfeitOnDefault
+  );
+}
+
+/**
+ * Buyer pays the rest of the price plus the transfer fees before the completion deadline;
+ * the land transfers in the same transaction
+ */
+export async function payPurchaseBalance(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract, userAddress } = ws;
+
+  const [price, escrowed, paymentToken, fees]: [bigint, bigint, string, FeeQuote] =
+    await Promise.all([
+      contract.landPrices(landId),
+      contract.escrowedAmount(landId),
+      contract.listingToken(landId),
+      fetchFeeQuote(contract, landId),
+    ]);
+
+  return await payInListingCurrency(
+    userAddress,
+    paymentToken,
+    price - escrowed + fees.total,
+    (overrides) => contract.payBalance(landId, overrides)
+  );
+}
+
+/**
+ * Unwind a sale whose completion deadline passed (anyone may call).
+ * The deposit goes to the seller or back to the buyer as the listing's terms say.
+ */
+export async function enforceCompletionDeadline(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.enforceCompletionDeadline(landId);
+}
+
+/**
+ * Whether the buyer missed the balance deadline of an accepted deposit
+ */
+export function isCompletionOverdue(info: SaleInfo): boolean {
+  return (
+    info.completionDeadline > 0 && Date.now() / 1000 > info.completionDeadline
+  );
+}
+
+/**
+ * Hand the encrypted geran over to the new owner via the MetadataStore
+ */
+async function transferGeranAccess(
+  userAddress: string,
+  signer: ethers.Signer,
+  privateCID: string,
+  buyerAddress: string
+): Promise<void> {
+  await getMetadataStore().transferEncryptedAccess(privateCID, userAddress, signer, buyerAddress);
+}
+
+// ────────── Geran hand-over after sales the seller did not sign ──────────
+
+/** A parcel the seller sold whose encrypted geran they still control */
+export interface PendingGeranRelease {
+  landId: string;
+  newOwner: string;
+  privateCID: string;
+}
+
+/**
+ * Transactions that complete a sale without the seller signing them, so the
+ * seller's client never got to hand over the geran: auctions settled by the
+ * winner or anyone else, and deposit sales completed by the buyer's balance
+ */
+async function fetchUnsignedSaleTxHashes(contract: Contract): Promise<Set<string>> {
+  const [settled, balancesPaid] = await Promise.all([
+    contract.queryFilter(contract.filters.AuctionSettled()),
+    contract.queryFilter(contract.filters.BalancePaid()),
+  ]);
+  return new Set([...settled, ...balancesPaid].map((log) => log.transactionHash));
+}
+
+/**
+ * Parcels `seller` sold in such a transaction whose geran the MetadataStore
+ * still has under their control. They hand each over with releaseGeranAccess.
+ */
+export async function fetchPendingGeranReleases(
+  contract: Contract,
+  seller: string
+): Promise<PendingGeranRelease[]> {
+  const [transfers, saleTxs] = await Promise.all([
+    contract.queryFilter(contract.filters.Transfer(seller)),
+    fetchUnsignedSaleTxHashes(contract),
+  ]);
+  const landIds = new Set(
+    transfers
+      .filter((log) => saleTxs.has(log.transactionHash))
+      .map((log) => contract.interface.parseLog(log)!.args.tokenId.toString() as string)
+  );
+
+  const store = getMetadataStore();
+  const releases = await Promise.all(
+    [...landIds].map(async (landId): Promise<PendingGeranRelease | null> => {
+      try {
+        const { owner, metadataCID } = await fetchLandDetails(contract, landId);
+        if (owner.toLowerCase() === seller.toLowerCase()) return null;
+        const controller = await store.encryptedOwner(metadataCID);
+        if (controller?.toLowerCase() !== seller.toLowerCase()) return null;
+        return { landId, newOwner: owner, privateCID: metadataCID };
+      } catch (err) {
+        console.warn(`Geran access check failed for id=${landId}:`, err);
+        return null;
+      }
+    })
+  );
+  return releases.filter((r): r is PendingGeranRelease => r !== null);
+}
+
+/**
+ * Seller hands the encrypted geran of a sold parcel over to its new owner
+ */
+export async function releaseGeranAccess(release: PendingGeranRelease): Promise<void> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { userAddress, signer } = ws;
+
+  await transferGeranAccess(userAddress, signer, release.privateCID, release.newOwner);
+}
+
+// ────────── Stamp duty and registration fee ──────────
+
+// Amounts are in the listing's currency: wei for ETH sales, token units otherwise
+export interface FeeQuote {
+  stampDuty: bigint; // MOT stamp duty, tiered on the sale price
+  registrationFee: bigint; // flat land office fee
+  total: bigint;
+}
+
+export interface FeeSettings {
+  address: string; // LandFees contract
+  treasury: string;
+  registrationFeeSen: bigint;
+}
+
+function toFeeQuote([stampDuty, registrationFee]: [bigint, bigint]): FeeQuote {
+  return { stampDuty, registrationFee, total: stampDuty + registrationFee };
+}
+
+/**
+ * The registry's LandFees schedule, or null while fees are switched off
+ */
+async function getLandFeesContract(contract: Contract): Promise<Contract | null> {
+  const address: string = await contract.landFees();
+  if (address === ZeroAddress) return null;
+  return new Contract(address, LandFeesABI.abi, contract.runner);
+}
+
+/**
+ * Fees the buyer of `landId` pays on top of the listing price
+ */
+export async function fetchFeeQuote(
+  contract: Contract,
+  landId: string
+): Promise<FeeQuote> {
+  return toFeeQuote(await contract.feesDue(landId));
+}
+
+/**
+ * Fees the buyer pays on top of an offer or bid of `amount` (wei when `tokenAddress`
+ * is ZeroAddress, token units otherwise), quoted as the registry does
+ */
+export async function fetchOfferFeeQuote(
+  contract: Contract,
+  tokenAddress: string,
+  amount: bigint
+): Promise<FeeQuote> {
+  const fees = await getLandFeesContract(contract);
+  if (!fees) return toFeeQuote([0n, 0n]);
+  // ETH amounts are valued at the owner-set rate, never the buyer's rate source
+  const rate: bigint = tokenAddress === ZeroAddress ? await contract.manualRateSenPerEth() : 0n;
+  return toFeeQuote(await fees.quote(amount, tokenAddress, rate));
+}
+
+export async function fetchFeeSettings(contract: Contract): Promise<FeeSettings | null> {
+  const fees = await getLandFeesContract(contract);
+  if (!fees) return null;
+  const [treasury, registrationFeeSen]: [string, bigint] = await Promise.all([
+    fees.treasury(),
+    fees.registrationFeeSen(),
+  ]);
+  return { address: await fees.getAddress(), treasury, registrationFeeSen };
+}
+
+/**
+ * Fee schedule owner changes where collected fees are credited
+ */
+export async function setFeeTreasury(
+  treasury: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const fees = await getLandFeesContract(ws.contract);
+  if (!fees) throw new Error("Fees are not enabled on this registry");
+  if (!ethers.isAddress(treasury)) throw new Error("Invalid treasury address");
+
+  return await fees.setTreasury(treasury);
+}
+
+/**
+ * Fee schedule owner sets the flat registration fee, in MYR
+ */
+export async function setRegistrationFee(
+  feeRM: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const fees = await getLandFeesContract(ws.contract);
+  if (!fees) throw new Error("Fees are not enabled on this registry");
+
+  return await fees.setRegistrationFee(parseRM(feeRM));
+}
+
+// ────────── Transfer eligibility ──────────
+
+// LandEligibility.Refusal names, indexed by their on-chain value
+export const ELIGIBILITY_REFUSALS = [
+  "None",
+  "BuyerNotAttested",
+  "NotMalay",
+  "NoStateConsent",
+  "BelowForeignMinimum",
+] as const;
+export type EligibilityRefusal = (typeof ELIGIBILITY_REFUSALS)[number];
+
+export interface LandRestrictions {
+  malayReserve: boolean; // only Malay buyers
+  stateConsentRequired: boolean; // each buyer needs recorded state authority consent
+  foreignMinPriceSen: bigint; // minimum price for foreign buyers; 0 = none
+}
+
+export interface BuyerProfile {
+  attested: boolean; // staff reviewed the buyer's documents
+  malay: boolean;
+  foreign: boolean;
+}
+
+export interface EligibilityResult {
+  refusal: EligibilityRefusal; // "None" when the buyer may proceed
+  reason: string | null; // explanation for the buyer
+}
+
+const NO_RESTRICTIONS: LandRestrictions = {
+  malayReserve: false,
+  stateConsentRequired: false,
+  foreignMinPriceSen: 0n,
+};
+
+/**
+ * The registry's LandEligibility rules, or null while they are switched off
+ */
+async function getLandEligibilityContract(contract: Contract): Promise<Contract | null> {
+  const address: string = await contract.landEligibility();
+  if (address === ZeroAddress) return null;
+  return new Contract(address, LandEligibilityABI.abi, contract.runner);
+}
+
+async function requireLandEligibilityContract(): Promise<Contract> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const rules = await getLandEligibilityContract(ws.contract);
+  if (!rules) throw new Error("Eligibility rules are not enabled on this registry");
+  return rules;
+}
+
+export async function fetchLandRestrictions(
+  contract: Contract,
+  landId: string
+): Promise<LandRestrictions> {
+  const rules = await getLandEligibilityContract(contract);
+  if (!rules) return NO_RESTRICTIONS;
+  const r = await rules.restrictions(landId);
+  return {
+    malayReserve: r.malayReserve,
+    stateConsentRequired: r.stateConsentRequired,
+    foreignMinPriceSen: r.foreignMinPriceSen,
+  };
+}
+
+export async function fetchBuyerProfile(
+  contract: Contract,
+  buyer: string
+): Promise<BuyerProfile> {
+  const rules = await getLandEligibilityContract(contract);
+  if (!rules) return { attested: false, malay: false, foreign: false };
+  const b = await rules.buyerProfiles(buyer);
+  return { attested: b.attested, malay: b.malay, foreign: b.foreign };
+}
+
+export async function fetchStateConsent(
+  contract: Contract,
+  landId: string,
+  buyer: string
+): Promise<boolean> {
+  const rules = await getLandEligibilityContract(contract);
+  return rules ? await rules.stateConsent(landId, buyer) : false;
+}
+
+function explainRefusal(refusal: EligibilityRefusal, restrictions: LandRestrictions): string | null {
+  switch (refusal) {
+    case "BuyerNotAttested":
+      return "This title carries transfer restrictions. Land office staff must verify your buyer status before you can buy it.";
+    case "NotMalay":
+      return "This is Malay Reserve land; only Malay buyers may acquire it.";
+    case "NoStateConsent":
+      return "Transfers of this title need state authority consent, which has not been recorded for you yet.";
+    case "BelowForeignMinimum":
+      return `Foreign buyers must pay at least RM ${formatRM(restrictions.foreignMinPriceSen)} for this parcel.`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether `buyer` may take `landId` at `amount` (wei, or units of `token`), the same
+ * check the registry makes before taking the buyer's money and again on transfer.
+ * ETH amounts are valued at the registry's manual MYR/ETH rate.
+ */
+export async function checkEligibility(
+  contract: Contract,
+  landId: string,
+  buyer: string,
+  token: string,
+  amount: bigint
+): Promise<EligibilityResult> {
+  const rules = await getLandEligibilityContract(contract);
+  if (!rules) return { refusal: "None", reason: null };
+
+  const [code, restrictions]: [bigint, LandRestrictions] = await Promise.all([
+    rules.checkEligibility(landId, buyer, token, amount),
+    fetchLandRestrictions(contract, landId),
+  ]);
+  const refusal = ELIGIBILITY_REFUSALS[Number(code)] ?? "None";
+  return { refusal, reason: explainRefusal(refusal, restrictions) };
+}
+
+/**
+ * Staff record the restrictions on a parcel's title; `foreignMinPriceRM` "0" means no minimum
+ */
+export async function updateLandRestrictions(
+  landId: string,
+  malayReserve: boolean,
+  stateConsentRequired: boolean,
+  foreignMinPriceRM: string
+): Promise<ethers.TransactionResponse> {
+  const rules = await requireLandEligibilityContract();
+  return await rules.setRestrictions(
+    landId,
+    malayReserve,
+    stateConsentRequired,
+    parseRM(foreignMinPriceRM)
+  );
+}
+
+/**
+ * Staff attest a buyer's status after checking their identity documents
+ */
+export async function attestBuyer(
+  buyer: string,
+  malay: boolean,
+  foreign: boolean
+): Promise<ethers.TransactionResponse> {
+  if (!ethers.isAddress(buyer)) throw new Error("Invalid buyer address");
+  const rules = await requireLandEligibilityContract();
+  return await rules.attestBuyer(buyer, malay, foreign);
+}
+
+/**
+ * Staff record (or withdraw) state authority consent for `buyer` to take `landId`
+ */
+export async function setStateConsent(
+  landId: string,
+  buyer: string,
+  granted: boolean
+): Promise<ethers.TransactionResponse> {
+  if (!ethers.isAddress(buyer)) throw new Error("Invalid buyer address");
+  const rules = await requireLandEligibilityContract();
+  return await rules.setStateConsent(landId, buyer, granted);
+}
+
+// ────────── Signed offers (EIP-712) ──────────
+
+// Must match LandRegistry's EIP712("LandRegistry", "1") and SIGNED_OFFER_TYPEHASH
+const SIGNED_OFFER_TYPES = {
+  SignedOffer: [
+    { name: "landId", type: "uint256" },
+    { name: "buyer", type: "address" },
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+// connectAccount refuses any other chain, so offers are always signed for NETWORK
+const SIGNED_OFFER_DOMAIN: ethers.TypedDataDomain = {
+  name: "LandRegistry",
+  version: "1",
+  chainId: NETWORK.chainId,
+  verifyingContract: CONTRACT_ADDRESS,
+};
+
+// Random rather than sequential, so offers signed on different devices never collide
+function randomNonce(): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return BigInt(ethers.hexlify(bytes));
+}
+
+export type SignedOfferState = "open" | "expired" | "used";
+
+/**
+ * 1) Buyer signs an offer of `amountRM` in a whitelisted MYR stablecoin, valid for `validForSeconds`
+ * 2) No transaction: the offer is saved to the local offer book for the seller.
+ *    The registry pulls the amount plus fees on acceptance, so the buyer must keep it approved.
+ */
+export async function signOffer(
+  landId: string,
+  amountRM: string,
+  tokenAddress: string,
+  validForSeconds: number
+): Promise<SignedOfferEntry> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract, signer, userAddress } = ws;
+
+  if (!(validForSeconds > 0)) throw new Error("Offer validity must be positive");
+  const token = await fetchPaymentToken(contract, tokenAddress);
+  if (!token.accepted) throw new Error(`${token.symbol} is not accepted for offers`);
+
+  const now = Math.floor(Date.now() / 1000);
+  const offer: SignedOffer = {
+    landId: BigInt(landId),
+    buyer: userAddress,
+    token: tokenAddress,
+    amount: rmAmountToTokenUnits(amountRM, token),
+    expiry: BigInt(now + Math.floor(validForSeconds)),
+    nonce: randomNonce(),
+  };
+  const signature = await signer.signTypedData(SIGNED_OFFER_DOMAIN, SIGNED_OFFER_TYPES, offer);
+
+  const entry = { offer, signature, createdAt: now };
+  saveSignedOffer(entry);
+  return entry;
+}
+
+/**
+ * Owner adds an offer a buyer sent as an offer code to their local book, once it
+ * is shown to be for `landId` and signed by the buyer it names
+ */
+export function importSignedOffer(landId: string, code: string): SignedOfferEntry {
+  const entry = decodeOfferCode(code);
+  const { offer } = entry;
+  if (offer.landId !== BigInt(landId)) {
+    throw new Error(`This offer is for parcel #${offer.landId}, not #${landId}`);
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyTypedData(SIGNED_OFFER_DOMAIN, SIGNED_OFFER_TYPES, offer, entry.signature);
+  } catch {
+    throw new Error("The offer code carries a malformed signature");
+  }
+  if (signer !== ethers.getAddress(offer.buyer)) {
+    throw new Error("The offer was not signed by the buyer it names");
+  }
+
+  saveSignedOffer(entry);
+  return entry;
+}
+
+/**
+ * Whether a signed offer can still be accepted: not expired, nonce not used or cancelled
+ */
+export async function fetchSignedOfferState(
+  contract: Contract,
+  offer: SignedOffer
+): Promise<SignedOfferState> {
+  if (await contract.usedOfferNonces(offer.buyer, offer.nonce)) return "used";
+  return BigInt(Math.floor(Date.now() / 1000)) > offer.expiry ? "expired" : "open";
+}
+
+/**
+ * 1) Seller submits a signed offer; the registry pulls the amount and fees from the buyer and transfers the land
+ * 2) Transfers encrypted geran access to the buyer
+ */
+export async function acceptSignedOffer(
+  entry: SignedOfferEntry,
+  privateCID: string
+): Promise<void> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract, userAddress, signer } = ws;
+
+  const tx = await contract.acceptSignedOffer(entry.offer, entry.signature);
+  await tx.wait();
+  removeSignedOffer(entry.offer.buyer, entry.offer.nonce);
+
+  await transferGeranAccess(userAddress, signer, privateCID, entry.offer.buyer);
+}
+
+/**
+ * Buyer burns the offer's nonce on-chain so the signature can never be accepted
+ */
+export async function cancelSignedOffer(entry: SignedOfferEntry): Promise<void> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  const tx = await contract.cancelSignedOffer(entry.offer.nonce);
+  await tx.wait();
+  removeSignedOffer(entry.offer.buyer, entry.offer.nonce);
+}
+
+// ────────── MYR/ETH rate ──────────
+
+// Rates are refetched at most once a minute
+const RATE_CACHE_MS = 60_000;
+
+let rateProvider: RateProvider | null = null;
+let cachedRate: { rate: ExchangeRate; fetchedAt: number } | null = null;
+
+function getRateProvider(): RateProvider {
+  if (rateProvider) return rateProvider;
+  switch (rateSourceFromEnv()) {
+    case "fixture":
+      rateProvider = createFixtureRateProvider();
+      break;
+    case "manual":
+      rateProvider = createManualRateProvider(async () => {
+        return await fetchManualRateRaw(getReadOnlyContract());
+      });
+      break;
+    default:
+      rateProvider = createCoinGeckoRateProvider();
+  }
+  return rateProvider;
+}
+
+/**
+ * Current MYR/ETH rate from the configured source (VITE_RATE_SOURCE)
+ */
+export async function getCurrentRate(): Promise<ExchangeRate> {
+  if (cachedRate && Date.now() - cachedRate.fetchedAt < RATE_CACHE_MS) {
+    return cachedRate.rate;
+  }
+  const rate = await getRateProvider().getRate();
+  cachedRate = { rate, fetchedAt: Date.now() };
+  return rate;
+}
+
+// For read paths that can still show on-chain data without a rate
+async function getCurrentRateOrNull(): Promise<ExchangeRate | null> {
+  try {
+    return await getCurrentRate();
+  } catch (err) {
+    console.warn("MYR/ETH rate unavailable:", err);
+    return null;
+  }
+}
+
+/**
+ * MYR asking price: token listings are already in MYR; ETH listings are
+ * converted at the rate recorded with the listing, or at the current rate for
+ * parcels listed without one
+ */
+async function formatPriceRM(
+  contract: Contract,
+  price: bigint,
+  paymentToken: string,
+  listingRateSenPerEth: bigint,
+  currentRate: ExchangeRate | null
+): Promise<string> {
+  if (paymentToken !== ZeroAddress) {
+    const token = await fetchPaymentToken(contract, paymentToken);
+    return senToDecimal(tokenUnitsToSen(price, token.decimals));
+  }
+  const senPerEth = listingRateSenPerEth > 0n ? listingRateSenPerEth : currentRate?.senPerEth;
+  return senPerEth ? senToDecimal(weiToSen(price, senPerEth)) : "";
+}
+
+/**
+ * MYR amount typed by a user ("1,234.50") → wei at `rate`
+ */
+function rmAmountToWei(amountRM: string, rate: ExchangeRate): bigint {
+  return senToWei(parsePositiveRM(amountRM), rate.senPerEth);
+}
+
+function rmAmountToTokenUnits(amountRM: string, token: PaymentToken): bigint {
+  return senToTokenUnits(parsePositiveRM(amountRM), token.decimals);
+}
+
+function parsePositiveRM(amountRM: string): bigint {
+  const sen = parseRM(amountRM);
+  if (sen === 0n) throw new Error("Amount must be positive");
+  return sen;
+}
+
+async function fetchManualRateRaw(
+  contract: Contract
+): Promise<{ senPerEth: bigint; updatedAt: bigint }> {
+  const [senPerEth, updatedAt]: [bigint, bigint] = await Promise.all([
+    contract.manualRateSenPerEth(),
+    contract.manualRateUpdatedAt(),
+  ]);
+  return { senPerEth, updatedAt };
+}
+
+/**
+ * The owner-set rate, or null if it was never set
+ */
+export async function fetchManualRate(contract: Contract): Promise<ExchangeRate | null> {
+  const { senPerEth, updatedAt } = await fetchManualRateRaw(contract);
+  if (senPerEth === 0n) return null;
+  return { senPerEth, source: "manual", asOf: Number(updatedAt) };
+}
+
+/**
+ * Registry owner sets the rate used by the "manual" rate source
+ */
+export async function setManualRate(
+  rmPerEth: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  const senPerEth = parseRM(rmPerEth);
+  if (senPerEth === 0n) throw new Error("Rate must be positive");
+  const tx = await contract.setManualRate(senPerEth);
+  cachedRate = null;
+  return tx;
+}
+
+// ────────── ERC-20 payment tokens ──────────
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+/**
+ * A MYR stablecoin sellers can price parcels in (1 token = RM 1)
+ */
+export interface PaymentToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  accepted: boolean; // false once the registry owner stops accepting new listings in it
+}
+
+// symbol/decimals never change, so each token is looked up once
+const paymentTokenCache = new Map<string, Promise<Omit<PaymentToken, "accepted">>>();
+
+function describeToken(
+  contract: Contract,
+  address: string
+): Promise<Omit<PaymentToken, "accepted">> {
+  const key = address.toLowerCase();
+  let info = paymentTokenCache.get(key);
+  if (!info) {
+    const token = new Contract(address, ERC20_ABI, contract.runner);
+    info = Promise.all([token.symbol(), token.decimals()]).then(
+      ([symbol, decimals]: [string, bigint]) => ({ address, symbol, decimals: Number(decimals) })
+    );
+    info.catch(() => paymentTokenCache.delete(key));
+    paymentTokenCache.set(key, info);
+  }
+  return info;
+}
+
+export async function fetchPaymentToken(
+  contract: Contract,
+  address: string
+): Promise<PaymentToken> {
+  const [info, accepted]: [Omit<PaymentToken, "accepted">, boolean] = await Promise.all([
+    describeToken(contract, address),
+    contract.acceptedPaymentTokens(address),
+  ]);
+  return { ...info, accepted };
+}
+
+/**
+ * Every token the registry has ever whitelisted; filter on `accepted` for new listings
+ */
+export async function fetchPaymentTokens(contract: Contract): Promise<PaymentToken[]> {
+  const addresses: string[] = await contract.getPaymentTokens();
+  return Promise.all(addresses.map((address) => fetchPaymentToken(contract, address)));
+}
+
+/**
+ * 1) Owner lists an Active/Approved land for sale at `priceRM`, priced in `tokenAddress`
+ * 2) priceRM → token units (1 token = RM 1)
+ * 3) call contract.listForSaleInToken(landId, token, price)
+ */
+export async function listLandForSaleInToken(
+  landId: string,
+  priceRM: string,
+  tokenAddress: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  const token = await fetchPaymentToken(contract, tokenAddress);
+  if (!token.accepted) throw new Error(`${token.symbol} is not accepted for new listings`);
+
+  return await contract.listForSaleInToken(landId, tokenAddress, rmAmountToTokenUnits(priceRM, token));
+}
+
+/**
+ * How much of `tokenAddress` the registry may pull from `owner`
+ */
+export async function fetchTokenAllowance(
+  tokenAddress: string,
+  owner: string
+): Promise<bigint> {
+  const token = new Contract(tokenAddress, ERC20_ABI, getReadOnlyContract().runner);
+  return await token.allowance(owner, CONTRACT_ADDRESS);
+}
+
+/**
+ * Buyer lets the registry pull `amount` of `tokenAddress` into escrow (step 1 of a token purchase)
+ */
+export async function approvePaymentToken(
+  tokenAddress: string,
+  amount: bigint
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+
+  const token = new Contract(tokenAddress, ERC20_ABI, ws.signer);
+  return await token.approve(CONTRACT_ADDRESS, amount);
+}
+
+export interface SaleInfo {
+  priceWei: bigint; // wei, or token units when paymentToken is set
+  paymentToken: string; // ZeroAddress for ETH listings
+  listingRateSenPerEth: bigint; // MYR/ETH rate the price was quoted at, 0 if unknown
+  pendingBuyer: string;
+  purchaseDeadline: number; // unix seconds, 0 when no purchase is pending
+  escrowedAmount: bigint; // deposit or full price held for the pending buyer
+  completionDeadline: number; // unix seconds, 0 until the seller accepts a deposit
+}
+
+/**
+ * Fetch current sale info (price, pending buyer and approval deadline).
+ * Solidity getters return `uint256` → v6 becomes `bigint`
+ */
+export async function getSaleInfo(landId: string): Promise<SaleInfo> {
+  const contract = getReadOnlyContract();
+
+  // Land IDs start at 1, so parcel N is the single entry at offset N - 1
+  const { lands } = await fetchLandDetailsPage(contract, Number(landId) - 1, 1);
+  if (lands.length === 0) throw new Error(`Land ${landId} not found`);
+  return toSaleInfo(lands[0]);
+}
+
+/**
+ * Whether the seller's approval window for a pending purchase has passed.
+ * An accepted deposit is bound by the completion deadline instead.
+ */
+export function isPurchaseExpired(info: SaleInfo): boolean {
+  return (
+    info.completionDeadline === 0 &&
+    info.purchaseDeadline > 0 &&
+    Date.now() / 1000 > info.purchaseDeadline
+  );
+}
+
+/**
+ * Buyer withdraws a pending purchase request; the escrowed ETH is credited to their withdrawable balance
+ */
+export async function cancelPurchaseRequest(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.cancelPurchaseRequest(landId);
+}
+
+/**
+ * Seller declines a pending purchase request; the buyer is refunded
+ */
+export async function rejectPurchaseRequest(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.rejectPurchaseRequest(landId);
+}
+
+/**
+ * Release a purchase request the seller did not approve in time.
+ * Anyone may call it; the refund always goes to the buyer.
+ */
+export async function expirePurchaseRequest(
+  landId: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.expirePurchaseRequest(landId);
+}
+
+/**
+ * Sale proceeds and refunds credited to `userAddress`, waiting to be withdrawn
+ */
+export async function fetchWithdrawableBalance(
+  contract: Contract,
+  userAddress: string
+): Promise<bigint> {
+  return await contract.pendingWithdrawals(userAddress);
+}
+
+/**
+ * Pay out everything credited to the connected wallet
+ */
+export async function withdrawBalance(): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.withdraw();
+}
+
+/**
+ * Token proceeds and refunds credited to `address`, one entry per token with a balance
+ */
+export async function fetchWithdrawableTokenBalances(
+  contract: Contract,
+  address: string
+): Promise<{ token: PaymentToken; amount: bigint }[]> {
+  const tokens = await fetchPaymentTokens(contract);
+  const amounts: bigint[] = await Promise.all(
+    tokens.map((token) => contract.pendingTokenWithdrawals(address, token.address))
+  );
+  return tokens
+    .map((token, i) => ({ token, amount: amounts[i] }))
+    .filter(({ amount }) => amount > 0n);
+}
+
+/**
+ * Pay out everything credited to the connected wallet in `tokenAddress`
+ */
+export async function withdrawTokenBalance(
+  tokenAddress: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.withdrawToken(tokenAddress);
+}
+
+export async function handleViewGrant(cid: string) {
+
+   const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+    const {userAddress, signer } = ws;
+
+  // fetch + decrypt via the MetadataStore
+  const decrypted = await getMetadataStore().fetchEncrypted(cid, userAddress, signer, "application/pdf");
+  return URL.createObjectURL(decrypted);
+}
+
+
+// ────────── Roles ──────────
+
+// LandRegistry.Role values
+const ROLE_USER = 1;
+const ROLE_STAFF = 2;
+
+// "admin" is the registry's Ownable owner; the others mirror LandRegistry.roles
+export type UserRole = "admin" | "staff" | "user" | "nonuser";
+
+/**
+ * The role the registry grants `userAddress`. This is the only source of truth:
+ * anything a user writes into their own metadata JSON is ignored.
+ */
+export async function fetchUserRole(
+  contract: Contract,
+  userAddress: string
+): Promise<UserRole> {
+  const [isOwner, role]: [boolean, bigint] = await Promise.all([
+    isRegistryOwner(contract, userAddress),
+    contract.roles(userAddress),
+  ]);
+  if (isOwner) return "admin";
+  if (Number(role) === ROLE_STAFF) return "staff";
+  if (Number(role) === ROLE_USER) return "user";
+  return "nonuser";
+}
+
+/**
+ * Call `onChange` whenever an event that can change `userAddress`'s role is mined:
+ * their registration, a staff appointment or revocation, or a registry ownership
+ * transfer. Returns the unsubscribe function.
+ */
+export function watchUserRole(
+  contract: Contract,
+  userAddress: string,
+  onChange: () => void
+): () => void {
+  const filters = [
+    contract.filters.UserRegistered(userAddress),
+    contract.filters.StaffAppointed(userAddress),
+    contract.filters.StaffRevoked(userAddress),
+    contract.filters.OwnershipTransferred(),
+  ];
+  for (const filter of filters) {
+    contract.on(filter, onChange).catch((err) => console.error("Role watch failed:", err));
+  }
+  return () => {
+    for (const filter of filters) {
+      contract.off(filter, onChange).catch((err) => console.error("Role unwatch failed:", err));
+    }
+  };
+}
+
+// ────────── Admin console (contract owner only) ──────────
+
+export interface RegistryStats {
+  totalLands: number;
+  totalUsers: number;
+  totalStaff: number;
+  landsByStatus: number[]; // indexed by LandRegistry.LandStatus
+  escrowBalanceEth: string;
+}
+
+export interface LandOnchainDetails {
+  landId: string;
+  status: number;
+  metadataCID: string;
+  owner: string;
+  publicCID: string;
+  priceWei: bigint; // wei, or token units when paymentToken is set
+  paymentToken: string;
+  listingRateSenPerEth: bigint;
+  pendingBuyer: string;
+  purchaseDeadline: number; // unix seconds, 0 when no purchase is pending
+  escrowedAmount: bigint; // what the pending buyer has paid in, in the listing's currency
+  completionDeadline: number; // unix seconds the balance is due by, 0 until a deposit is accepted
+  verifiedBy: string;
+  rejectionReason: string;
+}
+
+export interface RegistryTransaction {
+  event:
+    | "LandRegistered"
+    | "LandListed"
+    | "PurchaseRequested"
+    | "LandOwnershipTransferred";
+  landId: string;
+  account: string; // owner, buyer or new owner depending on the event
+  priceWei: bigint | null;
+  blockNumber: number;
+  txHash: string;
+}
+
+/**
+ * Whether `userAddress` is the Ownable owner of LandRegistry
+ */
+export async function isRegistryOwner(
+  contract: Contract,
+  userAddress: string
+): Promise<boolean> {
+  const owner: string = await contract.owner();
+  return owner.toLowerCase() === userAddress.toLowerCase();
+}
+
+/**
+ * Registry totals from the owner-only getRegistryStats; the read-only provider's
+ * eth_call is made from `ownerAddress` so the onlyOwner check passes
+ */
+export async function fetchRegistryStats(
+  contract: Contract,
+  ownerAddress: string
+): Promise<RegistryStats> {
+  const [totalLands, totalUsers, totalStaff, landsByStatus, escrowBalance]: [
+    bigint,
+    bigint,
+    bigint,
+    bigint[],
+    bigint
+  ] = await contract.getRegistryStats({ from: ownerAddress });
+
+  return {
+    totalLands: Number(totalLands),
+    totalUsers: Number(totalUsers),
+    totalStaff: Number(totalStaff),
+    landsByStatus: landsByStatus.map(Number),
+    escrowBalanceEth: formatEther(escrowBalance),
+  };
+}
+
+export async function fetchStaffMembers(contract: Contract): Promise<string[]> {
+  const staff: string[] = await contract.getStaffMembers();
+  return [...staff];
+}
+
+/**
+ * Everyone who may approve a parcel: current staff and the registry owner.
+ * Staff appointed later cannot read gerans uploaded before their appointment.
+ */
+async function fetchGeranReviewers(contract: Contract): Promise<string[]> {
+  const [staff, owner]: [string[], string] = await Promise.all([
+    fetchStaffMembers(contract),
+    contract.owner(),
+  ]);
+  return [...new Set([...staff, owner].map((a) => ethers.getAddress(a)))];
+}
+
+/**
+ * Every parcel for the admin console; the registry has no single-call getAllLandDetails,
+ * so this pages through getLandsPage
+ */
+export async function fetchAllLandDetails(
+  contract: Contract
+): Promise<LandOnchainDetails[]> {
+  return await fetchAllLandDetailsPaged(contract);
+}
+
+/**
+ * Registry activity rebuilt from contract events, newest first
+ */
+export async function fetchRegistryTransactions(
+  contract: Contract
+): Promise<RegistryTransaction[]> {
+  const [registered, listed, requested, transferred] = await Promise.all([
+    contract.queryFilter(contract.filters.LandRegistered()),
+    contract.queryFilter(contract.filters.LandListed()),
+    contract.queryFilter(contract.filters.PurchaseRequested()),
+    contract.queryFilter(contract.filters.LandOwnershipTransferred()),
+  ]);
+
+  const toTx = (
+    event: RegistryTransaction["event"],
+    log: ethers.Log,
+    pick: (args: ethers.Result) => { account: string; priceWei: bigint | null }
+  ): RegistryTransaction => {
+    const args = contract.interface.parseLog(log)!.args;
+    return {
+      event,
+      landId: args.landId.toString(),
+      ...pick(args),
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+    };
+  };
+
+  const txs = [
+    ...registered.map((l) =>
+      toTx("LandRegistered", l, (a) => ({ account: a.owner, priceWei: null }))
+    ),
+    ...listed.map((l) =>
+      toTx("LandListed", l, (a) => ({ account: "", priceWei: a.priceWei }))
+    ),
+    ...requested.map((l) =>
+      toTx("PurchaseRequested", l, (a) => ({ account: a.buyer, priceWei: null }))
+    ),
+    ...transferred.map((l) =>
+      toTx("LandOwnershipTransferred", l, (a) => ({
+        account: a.newOwner,
+        priceWei: null,
+      }))
+    ),
+  ];
+
+  return txs.sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+export async function appointStaff(
+  account: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  if (!ethers.isAddress(account)) throw new Error("Invalid wallet address");
+  return await contract.appointStaff(ethers.getAddress(account));
+}
+
+export async function revokeStaff(
+  account: string
+): Promise<ethers.TransactionResponse> {
+  const ws = await connectAccount();
+  if (!ws) throw new Error("MetaMask not connected");
+  const { contract } = ws;
+
+  return await contract.revokeStaff(account);
+}
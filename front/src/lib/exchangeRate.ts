@@ -0,0 +1,101 @@
+// src/lib/exchangeRate.ts
+import { formatRM, senFromNumber } from "./money";
+
+/**
+ * MYR/ETH exchange rates.
+ *
+ * The source is chosen with VITE_RATE_SOURCE:
+ *  - "coingecko" (default): live market rate from the CoinGecko simple price API
+ *  - "manual":  the rate the registry owner set on-chain (setManualRate)
+ *  - "fixture": a fixed rate for local development and tests
+ *
+ * Every rate carries its source and timestamp so the UI can show which rate
+ * a conversion used. Rates are integer sen per ETH, as LandRegistry stores
+ * them; convert amounts with the helpers in ./money.
+ */
+
+export type RateSource = "coingecko" | "manual" | "fixture";
+
+export interface ExchangeRate {
+  senPerEth: bigint;
+  source: RateSource;
+  asOf: number; // unix seconds the rate was published
+}
+
+export interface RateProvider {
+  readonly source: RateSource;
+  getRate(): Promise<ExchangeRate>;
+}
+
+// Fixture: the rate the app used before live rates existed
+export const FIXTURE_RATE: ExchangeRate = {
+  senPerEth: 400_000n, // RM 4,000
+  source: "fixture",
+  asOf: Date.UTC(2025, 0, 1) / 1000,
+};
+
+const COINGECKO_URL =
+  "https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=myr&include_last_updated_at=true";
+
+export function createFixtureRateProvider(rate: ExchangeRate = FIXTURE_RATE): RateProvider {
+  return { source: "fixture", getRate: async () => rate };
+}
+
+export function createCoinGeckoRateProvider(url: string = COINGECKO_URL): RateProvider {
+  return {
+    source: "coingecko",
+    async getRate() {
+      const resp = await fetch(url);
+      if (!resp.ok) throw new Error(`Rate request failed: ${resp.status}`);
+      const body = (await resp.json()) as {
+        ethereum?: { myr?: number; last_updated_at?: number };
+      };
+      const rmPerEth = body.ethereum?.myr;
+      if (!rmPerEth || rmPerEth <= 0) throw new Error("Rate response has no MYR price");
+      return {
+        senPerEth: senFromNumber(rmPerEth),
+        source: "coingecko",
+        asOf: body.ethereum?.last_updated_at ?? Math.floor(Date.now() / 1000),
+      };
+    },
+  };
+}
+
+/**
+ * Reads the owner-set rate; `readRate` returns LandRegistry's
+ * manualRateSenPerEth and manualRateUpdatedAt
+ */
+export function createManualRateProvider(
+  readRate: () => Promise<{ senPerEth: bigint; updatedAt: bigint }>
+): RateProvider {
+  return {
+    source: "manual",
+    async getRate() {
+      const { senPerEth, updatedAt } = await readRate();
+      if (senPerEth === 0n) throw new Error("The registry owner has not set a manual rate yet");
+      return { senPerEth, source: "manual", asOf: Number(updatedAt) };
+    },
+  };
+}
+
+export function rateSourceFromEnv(): RateSource {
+  const source = (import.meta.env.VITE_RATE_SOURCE || "coingecko") as RateSource;
+  if (!["coingecko", "manual", "fixture"].includes(source)) {
+    throw new Error(`Unknown VITE_RATE_SOURCE: ${source}`);
+  }
+  return source;
+}
+
+/**
+ * Relative change from `from` to `to` (sen per ETH), e.g. 0.05 for a 5% rise.
+ * Only used for display, so a float ratio is fine here.
+ */
+export function rateDrift(from: bigint, to: bigint): number {
+  if (from <= 0n) return 0;
+  return Number(((to - from) * 1_000_000n) / from) / 1_000_000;
+}
+
+export function describeRate(rate: ExchangeRate): string {
+  const when = new Date(rate.asOf * 1000).toLocaleString();
+  return `1 ETH = RM ${formatRM(rate.senPerEth)} (${rate.source}, ${when})`;
+}
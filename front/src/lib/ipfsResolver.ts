@@ -0,0 +1,314 @@
+// src/lib/ipfsResolver.ts
+
+/**
+ * Shared IPFS reader used by the MetadataStores.
+ *
+ * 1) Race every gateway for the raw block (`?format=raw`), each with a timeout
+ * 2) Trust the bytes only if their sha2-256 matches the digest inside the CID
+ * 3) Cache verified content by CID in memory and IndexedDB (CIDs never change)
+ */
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 1;
+const RETRY_DELAY_MS = 500;
+
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const MULTIHASH_SHA2_256 = 0x12;
+
+export class IpfsResolveError extends Error {
+  readonly cid: string;
+  readonly causes: unknown[];
+
+  constructor(cid: string, message: string, causes: unknown[] = []) {
+    super(`${cid}: ${message}`);
+    this.name = "IpfsResolveError";
+    this.cid = cid;
+    this.causes = causes;
+  }
+}
+
+export interface ResolveOptions {
+  timeoutMs?: number; // per gateway request
+  retries?: number;   // extra rounds once every gateway has failed
+}
+
+/**
+ * Gateway origins from VITE_IPFS_GATEWAYS (comma separated) followed by
+ * `defaults`, without duplicates
+ */
+export function configuredGateways(defaults: string[]): string[] {
+  const fromEnv: string = import.meta.env.VITE_IPFS_GATEWAYS || "";
+  const all = [...fromEnv.split(","), ...defaults]
+    .map((g) => g.trim().replace(/\/+$/, "").replace(/\/ipfs$/, ""))
+    .filter(Boolean);
+  return [...new Set(all)];
+}
+
+/**
+ * Verified content of `cid`, fetched from the first gateway to answer correctly
+ */
+export async function resolveCid(
+  cid: string,
+  gateways: string[],
+  options: ResolveOptions = {}
+): Promise<Uint8Array> {
+  const cached = await readCache(cid);
+  if (cached) return cached;
+
+  const { codec, digest } = parseCid(cid);
+  const timeoutMs = options.timeoutMs ?? Number(import.meta.env.VITE_IPFS_TIMEOUT_MS || DEFAULT_TIMEOUT_MS);
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  if (gateways.length === 0) throw new IpfsResolveError(cid, "no gateways configured");
+
+  const causes: unknown[] = [];
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) await new Promise((r) => setTimeout(r, RETRY_DELAY_MS * attempt));
+
+    // Losing requests are aborted as soon as one gateway wins
+    const race = new AbortController();
+    try {
+      const block = await firstFulfilled(
+        gateways.map((gateway) => fetchVerifiedBlock(gateway, cid, digest, timeoutMs, race.signal))
+      );
+      race.abort();
+
+      const content = codec === CODEC_DAG_PB ? unixfsContent(cid, block) : block;
+      await writeCache(cid, content);
+      return content;
+    } catch (err) {
+      race.abort();
+      causes.push(...(Array.isArray(err) ? err : [err]));
+    }
+  }
+
+  throw new IpfsResolveError(
+    cid,
+    `no gateway returned verified content (${gateways.length} gateway(s), ${retries + 1} attempt(s))`,
+    causes
+  );
+}
+
+/**
+ * resolveCid + UTF-8 decode + JSON.parse
+ */
+export async function resolveJson<T = unknown>(
+  cid: string,
+  gateways: string[],
+  options?: ResolveOptions
+): Promise<T> {
+  const bytes = await resolveCid(cid, gateways, options);
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes)) as T;
+  } catch (err) {
+    throw new IpfsResolveError(cid, "content is not valid JSON", [err]);
+  }
+}
+
+// Promise.any without the ES2021 lib: rejects with every error once all have failed
+function firstFulfilled<T>(promises: Promise<T>[]): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const errors: unknown[] = [];
+    let pending = promises.length;
+    promises.forEach((promise, i) =>
+      promise.then(resolve, (err) => {
+        errors[i] = err;
+        if (--pending === 0) reject(errors);
+      })
+    );
+  });
+}
+
+async function fetchVerifiedBlock(
+  gateway: string,
+  cid: string,
+  digest: Uint8Array,
+  timeoutMs: number,
+  raceSignal: AbortSignal
+): Promise<Uint8Array> {
+  const signal = AbortSignal.any([raceSignal, AbortSignal.timeout(timeoutMs)]);
+  const resp = await fetch(`${gateway}/ipfs/${cid}?format=raw`, {
+    headers: { Accept: "application/vnd.ipld.raw" },
+    cache: "no-store",
+    signal,
+  });
+  if (!resp.ok) throw new Error(`${gateway} answered ${resp.status}`);
+
+  const block = new Uint8Array(await resp.arrayBuffer());
+  const actual = new Uint8Array(await crypto.subtle.digest("SHA-256", block));
+  if (!bytesEqual(actual, digest)) {
+    throw new Error(`${gateway} returned bytes that do not match the CID`);
+  }
+  return block;
+}
+
+// ────────── CID parsing (CIDv0 base58btc and CIDv1 base32, sha2-256 only) ──────────
+
+function parseCid(cid: string): { codec: number; digest: Uint8Array } {
+  let codec: number;
+  let multihash: Uint8Array;
+
+  if (cid.startsWith("Qm")) {
+    codec = CODEC_DAG_PB;
+    multihash = base58Decode(cid);
+  } else if (cid.startsWith("b")) {
+    const bytes = base32Decode(cid.slice(1));
+    let offset = 0;
+    const [version, vLen] = readVarint(bytes, offset);
+    offset += vLen;
+    if (version !== 1) throw new IpfsResolveError(cid, `unsupported CID version ${version}`);
+    const [c, cLen] = readVarint(bytes, offset);
+    codec = c;
+    multihash = bytes.subarray(offset + cLen);
+  } else {
+    throw new IpfsResolveError(cid, "unsupported CID encoding");
+  }
+
+  if (codec !== CODEC_RAW && codec !== CODEC_DAG_PB) {
+    throw new IpfsResolveError(cid, `unsupported codec 0x${codec.toString(16)}`);
+  }
+  if (multihash[0] !== MULTIHASH_SHA2_256 || multihash[1] !== 32 || multihash.length !== 34) {
+    throw new IpfsResolveError(cid, "only sha2-256 CIDs can be verified");
+  }
+  return { codec, digest: multihash.subarray(2) };
+}
+
+const BASE58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+function base58Decode(input: string): Uint8Array {
+  let value = 0n;
+  for (const ch of input) {
+    const digit = BASE58.indexOf(ch);
+    if (digit < 0) throw new Error(`invalid base58 character "${ch}"`);
+    value = value * 58n + BigInt(digit);
+  }
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  for (const ch of input) {
+    if (ch !== "1") break;
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+}
+
+function base32Decode(input: string): Uint8Array {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of input.toLowerCase()) {
+    const digit = BASE32.indexOf(ch);
+    if (digit < 0) throw new Error(`invalid base32 character "${ch}"`);
+    value = (value << 5) | digit;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let result = 0;
+  let shift = 0;
+  let length = 0;
+  while (offset + length < bytes.length) {
+    const byte = bytes[offset + length++];
+    result += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) return [result, length];
+    shift += 7;
+  }
+  throw new Error("truncated varint");
+}
+
+// ────────── dag-pb / UnixFS (single-block files only) ──────────
+
+// Protobuf fields of `bytes`: field number → list of length-delimited values
+function protobufFields(bytes: Uint8Array): Map<number, Uint8Array[]> {
+  const fields = new Map<number, Uint8Array[]>();
+  let offset = 0;
+  while (offset < bytes.length) {
+    const [key, keyLen] = readVarint(bytes, offset);
+    offset += keyLen;
+    const field = Math.floor(key / 8);
+    const wireType = key & 7;
+    if (wireType === 0) {
+      offset += readVarint(bytes, offset)[1];
+    } else if (wireType === 2) {
+      const [len, lenLen] = readVarint(bytes, offset);
+      offset += lenLen;
+      fields.set(field, [...(fields.get(field) ?? []), bytes.subarray(offset, offset + len)]);
+      offset += len;
+    } else {
+      throw new Error(`unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+}
+
+function unixfsContent(cid: string, block: Uint8Array): Uint8Array {
+  const node = protobufFields(block);
+  // PBNode.Links = 2: content split over several blocks, which we cannot verify piecewise here
+  if (node.has(2)) throw new IpfsResolveError(cid, "multi-block files are not supported");
+  const data = node.get(1)?.[0];
+  if (!data) return new Uint8Array();
+  // UnixFS Data.Data = 2
+  return protobufFields(data).get(2)?.[0] ?? new Uint8Array();
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// ────────── Cache: memory first, then IndexedDB ──────────
+
+const DB_NAME = "bcland-ipfs";
+const DB_STORE = "content";
+
+const memoryCache = new Map<string, Uint8Array>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(DB_STORE);
+      req.onsuccess = () => resolve(req.result);
+      // A missing cache only costs a refetch
+      req.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+async function readCache(cid: string): Promise<Uint8Array | null> {
+  const hit = memoryCache.get(cid);
+  if (hit) return hit;
+
+  const db = await openDb();
+  if (!db) return null;
+  const stored = await new Promise<Uint8Array | null>((resolve) => {
+    const req = db.transaction(DB_STORE, "readonly").objectStore(DB_STORE).get(cid);
+    req.onsuccess = () => resolve(req.result instanceof Uint8Array ? req.result : null);
+    req.onerror = () => resolve(null);
+  });
+  if (stored) memoryCache.set(cid, stored);
+  return stored;
+}
+
+async function writeCache(cid: string, content: Uint8Array): Promise<void> {
+  memoryCache.set(cid, content);
+  const db = await openDb();
+  if (!db) return;
+  await new Promise<void>((resolve) => {
+    const tx = db.transaction(DB_STORE, "readwrite");
+    tx.objectStore(DB_STORE).put(content, cid);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+}
@@ -0,0 +1,81 @@
+// src/lib/lighthouseStore.ts
+import type { Signer } from "ethers";
+import lighthouse from "@lighthouse-web3/sdk";
+import kavach from "@lighthouse-web3/kavach";
+import { jsonFile, type MetadataStore } from "./metadataStore";
+import { configuredGateways, resolveJson } from "./ipfsResolver";
+
+const GATEWAY = "https://gateway.lighthouse.storage/ipfs/";
+// Tried alongside any VITE_IPFS_GATEWAYS; content is verified against the CID either way
+const DEFAULT_GATEWAYS = ["https://gateway.lighthouse.storage", "https://ipfs.io", "https://dweb.link"];
+
+// Sign Kavach challenge
+async function signAuthMessage(address: string, signer: Signer): Promise<string> {
+  const authResp = await kavach.getAuthMessage(address);
+  if (typeof authResp.message !== "string") throw new Error("No Kavach auth challenge found");
+  return signer.signMessage(authResp.message);
+}
+
+/**
+ * Lighthouse (IPFS + Kavach access control) backed MetadataStore
+ */
+export function createLighthouseStore(apiKey: string): MetadataStore {
+  const upload = async (file: File): Promise<string> => {
+    const resp = await lighthouse.upload([file], apiKey);
+    // resp.data.Hash に IPFS の CID が入っている
+    return resp.data.Hash;
+  };
+
+  return {
+    gatewayUrl: (cid) => `${GATEWAY}${cid}`,
+
+    upload,
+
+    uploadJson: (data, fileName) => upload(jsonFile(data, fileName)),
+
+    fetchJson: <T>(cid: string) => resolveJson<T>(cid, configuredGateways(DEFAULT_GATEWAYS)),
+
+    async uploadEncrypted(file, owner, signer) {
+      const signature = await signAuthMessage(owner, signer);
+      const resp = await lighthouse.uploadEncrypted([file], apiKey, owner, signature);
+      return resp.data[0].Hash;
+    },
+
+    async fetchEncrypted(cid, reader, signer, mimeType) {
+      const signature = await signAuthMessage(reader, signer);
+      const keyObject = await lighthouse.fetchEncryptionKey(cid, reader, signature);
+      if (!keyObject.data.key) {
+        throw new Error("Encryption key not found for the given CID.");
+      }
+      return await lighthouse.decryptFile(cid, keyObject.data.key, mimeType);
+    },
+
+    async shareEncrypted(cid, owner, signer, readers) {
+      const signature = await signAuthMessage(owner, signer);
+      await lighthouse.shareFile(owner, readers, cid, signature);
+    },
+
+    async transferEncryptedAccess(cid, owner, signer, newOwner) {
+      const signature = await signAuthMessage(owner, signer);
+      // Kavach types `error` as any; narrow it before building the message
+      const { error }: { error: unknown } = await kavach.transferOwnership(
+        owner,
+        cid,
+        newOwner,
+        signature,
+        true
+      );
+
+      if (error) {
+        console.error("Lighthouse error response:", error);
+        // Warning: at this point, buyer owns land but can't access CID — handle fallback
+        throw new Error(typeof error === "string" ? error : JSON.stringify(error));
+      }
+    },
+
+    async encryptedOwner(cid) {
+      const { data } = await kavach.getAccessCondition(cid);
+      return data.owner || null;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+// src/lib/localStore.ts
+import { jsonFile, type MetadataStore } from "./metadataStore";
+import { resolveJson } from "./ipfsResolver";
+
+/**
+ * MetadataStore for offline development against a Kubo-compatible HTTP API
+ * (a real `ipfs daemon`, or `npm run ipfs:local`).
+ *
+ * There is no access control here: "encrypted" uploads are stored in the
+ * clear and access transfers are no-ops. Never point production at it.
+ */
+export function createLocalStore(apiUrl: string, gatewayUrl: string): MetadataStore {
+  const api = apiUrl.replace(/\/$/, "");
+  const gateway = gatewayUrl.replace(/\/$/, "");
+
+  const upload = async (file: File): Promise<string> => {
+    const form = new FormData();
+    form.append("file", file, file.name);
+    const resp = await fetch(`${api}/api/v0/add?cid-version=1&raw-leaves=true`, {
+      method: "POST",
+      body: form,
+    });
+    if (!resp.ok) throw new Error(`Local IPFS upload failed: ${resp.status}`);
+    const { Hash } = (await resp.json()) as { Hash: string };
+    return Hash;
+  };
+
+  const fetchBlob = async (cid: string): Promise<Blob> => {
+    const resp = await fetch(`${gateway}/ipfs/${cid}`, { cache: "no-store" });
+    if (!resp.ok) throw new Error(`Local IPFS fetch failed for ${cid}: ${resp.status}`);
+    return await resp.blob();
+  };
+
+  return {
+    gatewayUrl: (cid) => `${gateway}/ipfs/${cid}`,
+
+    upload,
+
+    uploadJson: (data, fileName) => upload(jsonFile(data, fileName)),
+
+    // Offline: only the local gateway, still verified and cached by the resolver
+    fetchJson: <T>(cid: string) => resolveJson<T>(cid, [gateway]),
+
+    uploadEncrypted: (file) => upload(file),
+
+    async fetchEncrypted(cid, _reader, _signer, mimeType) {
+      const blob = await fetchBlob(cid);
+      return new Blob([blob], { type: mimeType });
+    },
+
+    async shareEncrypted() {},
+
+    async transferEncryptedAccess() {},
+
+    encryptedOwner: async () => null,
+  };
+}
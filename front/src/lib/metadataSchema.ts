@@ -0,0 +1,197 @@
+// src/lib/metadataSchema.ts
+
+/**
+ * Versioned JSON documents stored in the MetadataStore.
+ *
+ * 1) Writers build documents with buildLandMetadata / buildUserMetadata,
+ *    which stamp the current schema + version and validate every field
+ * 2) Readers pass raw JSON to parseLandMetadata / parseUserMetadata, which
+ *    upgrade older versions step by step and then validate the result
+ * 3) Anything that does not fit throws MetadataSchemaError listing each problem
+ *
+ * To change a document: bump the version, add the new interface, and add a
+ * migration from the previous version.
+ */
+
+export const LAND_METADATA_SCHEMA = "bcland/land-metadata";
+export const USER_METADATA_SCHEMA = "bcland/user-metadata";
+export const LAND_METADATA_VERSION = 1;
+export const USER_METADATA_VERSION = 1;
+
+export interface LandMetadataV1 {
+  schema: typeof LAND_METADATA_SCHEMA;
+  version: 1;
+  titleNumber: string;
+  landType: string;
+  username: string;
+  area: string;
+  geranCid: string; // encrypted geran document
+  timestamp: string; // ISO 8601
+}
+
+export interface UserMetadataV1 {
+  schema: typeof USER_METADATA_SCHEMA;
+  version: 1;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber: string;
+}
+
+// Latest versions; what the rest of the app works with
+export type LandMetadata = LandMetadataV1;
+export type UserMetadata = UserMetadataV1;
+
+export type LandMetadataInput = Omit<LandMetadata, "schema" | "version">;
+export type UserMetadataInput = Omit<UserMetadata, "schema" | "version">;
+
+export class MetadataSchemaError extends Error {
+  readonly schema: string;
+  readonly issues: string[];
+
+  constructor(schema: string, issues: string[]) {
+    super(`Invalid ${schema} document: ${issues.join("; ")}`);
+    this.name = "MetadataSchemaError";
+    this.schema = schema;
+    this.issues = issues;
+  }
+}
+
+type Doc = Record<string, unknown>;
+type Migration = (doc: Doc) => Doc;
+
+/**
+ * Documents written before versioning have no schema/version (treated as v0).
+ * v0 → v1: stamp schema + version and drop the never-populated `nric` field.
+ */
+const LAND_MIGRATIONS: Record<number, Migration> = {
+  0: (doc) => {
+    const rest = { ...doc };
+    delete rest.nric;
+    return { ...rest, schema: LAND_METADATA_SCHEMA, version: 1 };
+  },
+};
+
+const USER_MIGRATIONS: Record<number, Migration> = {
+  0: (doc) => ({ ...doc, schema: USER_METADATA_SCHEMA, version: 1 }),
+};
+
+// ────────── Land metadata ──────────
+
+export function buildLandMetadata(input: LandMetadataInput): LandMetadata {
+  const doc = { ...input, schema: LAND_METADATA_SCHEMA, version: LAND_METADATA_VERSION };
+  return validateLand(doc);
+}
+
+export function parseLandMetadata(raw: unknown): LandMetadata {
+  const doc = migrate(raw, LAND_METADATA_SCHEMA, LAND_METADATA_VERSION, LAND_MIGRATIONS);
+  return validateLand(doc);
+}
+
+function validateLand(doc: Doc): LandMetadata {
+  const issues: string[] = [];
+  requireString(doc, "titleNumber", issues);
+  requireString(doc, "landType", issues);
+  requireString(doc, "username", issues, { allowEmpty: true });
+  requireString(doc, "area", issues);
+  requireString(doc, "geranCid", issues);
+  requireString(doc, "timestamp", issues);
+  if (typeof doc.timestamp === "string" && Number.isNaN(Date.parse(doc.timestamp))) {
+    issues.push("timestamp must be an ISO 8601 date");
+  }
+  if (issues.length) throw new MetadataSchemaError(LAND_METADATA_SCHEMA, issues);
+
+  return {
+    schema: LAND_METADATA_SCHEMA,
+    version: 1,
+    titleNumber: doc.titleNumber as string,
+    landType: doc.landType as string,
+    username: doc.username as string,
+    area: doc.area as string,
+    geranCid: doc.geranCid as string,
+    timestamp: doc.timestamp as string,
+  };
+}
+
+// ────────── User metadata ──────────
+
+export function buildUserMetadata(input: UserMetadataInput): UserMetadata {
+  const doc = { ...input, schema: USER_METADATA_SCHEMA, version: USER_METADATA_VERSION };
+  return validateUser(doc);
+}
+
+export function parseUserMetadata(raw: unknown): UserMetadata {
+  const doc = migrate(raw, USER_METADATA_SCHEMA, USER_METADATA_VERSION, USER_MIGRATIONS);
+  return validateUser(doc);
+}
+
+function validateUser(doc: Doc): UserMetadata {
+  const issues: string[] = [];
+  requireString(doc, "email", issues);
+  requireString(doc, "firstName", issues);
+  requireString(doc, "lastName", issues, { allowEmpty: true });
+  requireString(doc, "phoneNumber", issues);
+  if (typeof doc.email === "string" && !/^[^\s@]+@[^\s@]+$/.test(doc.email)) {
+    issues.push("email is not a valid address");
+  }
+  if (issues.length) throw new MetadataSchemaError(USER_METADATA_SCHEMA, issues);
+
+  return {
+    schema: USER_METADATA_SCHEMA,
+    version: 1,
+    email: doc.email as string,
+    firstName: doc.firstName as string,
+    lastName: doc.lastName as string,
+    phoneNumber: doc.phoneNumber as string,
+  };
+}
+
+// ────────── Helpers ──────────
+
+function migrate(
+  raw: unknown,
+  schema: string,
+  latest: number,
+  migrations: Record<number, Migration>
+): Doc {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new MetadataSchemaError(schema, ["document is not a JSON object"]);
+  }
+  let doc = raw as Doc;
+
+  if (doc.schema !== undefined && doc.schema !== schema) {
+    throw new MetadataSchemaError(schema, [`unexpected schema "${String(doc.schema)}"`]);
+  }
+  const declared = doc.version === undefined ? 0 : doc.version;
+  if (typeof declared !== "number" || !Number.isInteger(declared) || declared < 0) {
+    throw new MetadataSchemaError(schema, [`invalid version ${JSON.stringify(doc.version)}`]);
+  }
+  let version = declared;
+  if (version > latest) {
+    throw new MetadataSchemaError(schema, [
+      `version ${version} is newer than this app supports (${latest}); reload to update`,
+    ]);
+  }
+
+  while (version < latest) {
+    const step = migrations[version];
+    if (!step) throw new MetadataSchemaError(schema, [`no migration from version ${version}`]);
+    doc = step(doc);
+    version = doc.version as number;
+  }
+  return doc;
+}
+
+function requireString(
+  doc: Doc,
+  field: string,
+  issues: string[],
+  { allowEmpty = false }: { allowEmpty?: boolean } = {}
+): void {
+  const value = doc[field];
+  if (typeof value !== "string") {
+    issues.push(`${field} must be a string`);
+  } else if (!allowEmpty && value.trim() === "") {
+    issues.push(`${field} is required`);
+  }
+}
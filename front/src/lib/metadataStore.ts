@@ -0,0 +1,64 @@
+// src/lib/metadataStore.ts
+import type { Signer } from "ethers";
+import { createLighthouseStore } from "./lighthouseStore";
+import { createLocalStore } from "./localStore";
+
+/**
+ * Where land and user metadata (and the encrypted geran files) live.
+ * Every registration, listing and metadata read goes through this interface
+ * so the backend can be swapped with VITE_METADATA_STORE.
+ */
+export interface MetadataStore {
+  /** URL a browser can open to read `cid` */
+  gatewayUrl(cid: string): string;
+  /** Upload a public file; returns its CID */
+  upload(file: File): Promise<string>;
+  /** Serialize `data` and upload it as a public JSON file; returns its CID */
+  uploadJson(data: unknown, fileName: string): Promise<string>;
+  /** Read a JSON document uploaded with uploadJson */
+  fetchJson<T = unknown>(cid: string): Promise<T>;
+  /** Upload a file only `owner` can read; returns its CID */
+  uploadEncrypted(file: File, owner: string, signer: Signer): Promise<string>;
+  /** Download and decrypt a file uploaded with uploadEncrypted */
+  fetchEncrypted(cid: string, reader: string, signer: Signer, mimeType: string): Promise<Blob>;
+  /** Let `readers` decrypt a file `owner` uploaded with uploadEncrypted, alongside the owner */
+  shareEncrypted(cid: string, owner: string, signer: Signer, readers: string[]): Promise<void>;
+  /** Give `newOwner` read access to an encrypted file after a sale */
+  transferEncryptedAccess(cid: string, owner: string, signer: Signer, newOwner: string): Promise<void>;
+  /** Who controls access to an encrypted file, or null if the store has no access control */
+  encryptedOwner(cid: string): Promise<string | null>;
+}
+
+export type MetadataStoreKind = "lighthouse" | "local";
+
+let store: MetadataStore | null = null;
+
+/**
+ * The store selected by VITE_METADATA_STORE ("lighthouse" by default, or
+ * "local" for a Kubo-compatible node such as `npm run ipfs:local`)
+ */
+export function getMetadataStore(): MetadataStore {
+  if (store) return store;
+
+  const kind = (import.meta.env.VITE_METADATA_STORE || "lighthouse") as MetadataStoreKind;
+  switch (kind) {
+    case "lighthouse":
+      store = createLighthouseStore(import.meta.env.VITE_LIGHTHOUSE_API_KEY!);
+      break;
+    case "local":
+      store = createLocalStore(
+        import.meta.env.VITE_LOCAL_IPFS_API || "http://127.0.0.1:5001",
+        import.meta.env.VITE_LOCAL_IPFS_GATEWAY || "http://127.0.0.1:8080"
+      );
+      break;
+    default:
+      throw new Error(`Unknown VITE_METADATA_STORE: ${kind}`);
+  }
+  return store;
+}
+
+/** Wrap JSON metadata in a File so every store uploads it the same way */
+export function jsonFile(data: unknown, fileName: string): File {
+  const blob = new Blob([JSON.stringify(data)], { type: "application/json" });
+  return new File([blob], fileName);
+}
@@ -0,0 +1,137 @@
+// src/lib/money.ts
+
+/**
+ * Fixed-point money: no floats anywhere on a price path.
+ *
+ *  - MYR amounts are bigint sen (RM 1 = 100 sen)
+ *  - ETH amounts are bigint wei
+ *  - MYR/ETH rates are bigint sen per ETH (the unit LandRegistry stores)
+ *
+ * Rounding rules:
+ *  1) Parsing never rounds: input with more decimals than the unit holds is rejected
+ *  2) Conversions between sen and wei round half up to the nearest target unit
+ *  3) Display formatting rounds half up to the requested number of decimals
+ */
+
+export const SEN_PER_RM = 100n;
+export const WEI_PER_ETH = 10n ** 18n;
+
+const RM_DECIMALS = 2;
+
+export class MoneyFormatError extends Error {
+  readonly input: string;
+
+  constructor(input: string, message: string) {
+    super(`"${input}": ${message}`);
+    this.name = "MoneyFormatError";
+    this.input = input;
+  }
+}
+
+// ────────── Parsing ──────────
+
+/**
+ * "1,234.5" → 123450n sen. Accepts digits, optional thousands separators, an
+ * optional "RM" prefix and up to two decimals; exponents and negatives are errors.
+ */
+export function parseRM(input: string): bigint {
+  const cleaned = input.trim().replace(/^RM\s*/i, "").replace(/,/g, "");
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(cleaned);
+  if (!match) throw new MoneyFormatError(input, "not a plain decimal MYR amount");
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > RM_DECIMALS) {
+    throw new MoneyFormatError(input, `MYR amounts have at most ${RM_DECIMALS} decimals`);
+  }
+  return BigInt(whole) * SEN_PER_RM + BigInt(fraction.padEnd(RM_DECIMALS, "0"));
+}
+
+/**
+ * parseRM for live form input: null instead of throwing
+ */
+export function tryParseRM(input: string): bigint | null {
+  try {
+    return parseRM(input);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * MYR value that arrived as a JSON number (e.g. a market rate), rounded half up to the sen
+ */
+export function senFromNumber(value: number): bigint {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new MoneyFormatError(String(value), "not a non-negative finite number");
+  }
+  // toFixed never uses exponent notation below 1e21
+  return parseRM(value.toFixed(RM_DECIMALS));
+}
+
+// ────────── Conversion ──────────
+
+export function senToWei(sen: bigint, senPerEth: bigint): bigint {
+  return divRoundHalfUp(sen * WEI_PER_ETH, senPerEth);
+}
+
+export function weiToSen(wei: bigint, senPerEth: bigint): bigint {
+  return divRoundHalfUp(wei * senPerEth, WEI_PER_ETH);
+}
+
+/**
+ * Whitelisted payment tokens are MYR stablecoins (1 token = RM 1), so token
+ * amounts convert to sen by scaling between `decimals` and 2 decimals
+ */
+export function senToTokenUnits(sen: bigint, decimals: number): bigint {
+  return scaleDecimals(sen, RM_DECIMALS, decimals);
+}
+
+export function tokenUnitsToSen(amount: bigint, decimals: number): bigint {
+  return scaleDecimals(amount, decimals, RM_DECIMALS);
+}
+
+function scaleDecimals(amount: bigint, from: number, to: number): bigint {
+  if (to >= from) return amount * 10n ** BigInt(to - from);
+  return divRoundHalfUp(amount, 10n ** BigInt(from - to));
+}
+
+function divRoundHalfUp(numerator: bigint, denominator: bigint): bigint {
+  if (denominator <= 0n) throw new RangeError("Rate must be positive");
+  if (numerator < 0n) throw new RangeError("Amount must not be negative");
+  return (numerator * 2n + denominator) / (denominator * 2n);
+}
+
+// ────────── Formatting ──────────
+
+/**
+ * 123450n → "1234.50": plain decimal for form inputs and round-tripping through parseRM
+ */
+export function senToDecimal(sen: bigint): string {
+  const whole = sen / SEN_PER_RM;
+  const fraction = (sen % SEN_PER_RM).toString().padStart(RM_DECIMALS, "0");
+  return `${whole}.${fraction}`;
+}
+
+/**
+ * 123450n → "1,234.50" for display
+ */
+export function formatRM(sen: bigint): string {
+  const [whole, fraction] = senToDecimal(sen).split(".");
+  return `${groupThousands(whole)}.${fraction}`;
+}
+
+/**
+ * Wei → ETH rounded half up to `decimals` places, trailing zeros dropped
+ */
+export function formatEth(wei: bigint, decimals = 6): string {
+  const step = 10n ** BigInt(18 - decimals);
+  const rounded = divRoundHalfUp(wei, step);
+  const scale = 10n ** BigInt(decimals);
+  const whole = rounded / scale;
+  const fraction = (rounded % scale).toString().padStart(decimals, "0").replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+function groupThousands(digits: string): string {
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+}
@@ -0,0 +1,67 @@
+// src/lib/network.ts
+
+/**
+ * The chain VITE_CONTRACT_ADDRESS is deployed on.
+ *
+ * Calls against any other chain reach an address with no registry behind it
+ * and fail with ethers' opaque BAD_DATA, so writes are refused until the wallet
+ * is on this network and the user is offered a switch instead.
+ */
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string | null;
+}
+
+export const NETWORK: NetworkConfig = {
+  chainId: Number(import.meta.env.VITE_CHAIN_ID || 31337),
+  name: import.meta.env.VITE_CHAIN_NAME || "Hardhat Localhost",
+  rpcUrl: import.meta.env.VITE_RPC_URL || "http://127.0.0.1:8545",
+  explorerUrl: import.meta.env.VITE_EXPLORER_URL || null,
+};
+
+// EIP-3085 / EIP-3326 error when the wallet does not know the chain yet
+const UNRECOGNIZED_CHAIN = 4902;
+
+export function isExpectedChain(chainId: number | bigint | null): boolean {
+  return chainId !== null && Number(chainId) === NETWORK.chainId;
+}
+
+export function wrongNetworkMessage(chainId: number | bigint | null): string {
+  const current = chainId === null ? "no network" : `chain ${Number(chainId)}`;
+  return `Wallet is on ${current}. Switch to ${NETWORK.name} (chain ${NETWORK.chainId}) to continue.`;
+}
+
+/**
+ * Ask the wallet to switch to NETWORK, adding it first if the wallet has never
+ * seen it. Throws if the user declines.
+ */
+export async function switchToExpectedNetwork(): Promise<void> {
+  if (!window.ethereum) throw new Error("MetaMask not connected");
+  const chainIdHex = `0x${NETWORK.chainId.toString(16)}`;
+  try {
+    await window.ethereum.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: chainIdHex }],
+    });
+  } catch (err) {
+    // MetaMask Mobile nests the code under data.originalError
+    const e = err as { code?: number; data?: { originalError?: { code?: number } } };
+    const code = e.code ?? e.data?.originalError?.code;
+    if (code !== UNRECOGNIZED_CHAIN) throw err;
+    await window.ethereum.request({
+      method: "wallet_addEthereumChain",
+      params: [
+        {
+          chainId: chainIdHex,
+          chainName: NETWORK.name,
+          rpcUrls: [NETWORK.rpcUrl],
+          nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+          blockExplorerUrls: NETWORK.explorerUrl ? [NETWORK.explorerUrl] : undefined,
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,132 @@
+// src/lib/offerBook.ts
+
+/**
+ * Local book of EIP-712 signed offers.
+ *
+ * A signed offer costs the buyer no gas and lives off-chain until a seller
+ * submits it to LandRegistry.acceptSignedOffer, so the app keeps them in
+ * localStorage. Amounts and nonces are stored as decimal strings because
+ * JSON has no bigint. The book is per browser: buyers hand an offer to the
+ * seller as an offer code, which the seller imports into their own book.
+ */
+
+const STORAGE_KEY = "bcland-signed-offers";
+
+export interface SignedOffer {
+  landId: bigint;
+  buyer: string;
+  token: string; // whitelisted ERC-20 the amount is pulled in
+  amount: bigint; // token units
+  expiry: bigint; // unix seconds
+  nonce: bigint;
+}
+
+export interface SignedOfferEntry {
+  offer: SignedOffer;
+  signature: string;
+  createdAt: number; // unix seconds
+}
+
+type StoredEntry = {
+  offer: Record<keyof SignedOffer, string>;
+  signature: string;
+  createdAt: number;
+};
+
+function readAll(): StoredEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as StoredEntry[]) : [];
+  } catch {
+    // A corrupt book only loses unsubmitted offers
+    return [];
+  }
+}
+
+function writeAll(entries: StoredEntry[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+function toEntry(stored: StoredEntry): SignedOfferEntry {
+  const o = stored.offer;
+  return {
+    offer: {
+      landId: BigInt(o.landId),
+      buyer: o.buyer,
+      token: o.token,
+      amount: BigInt(o.amount),
+      expiry: BigInt(o.expiry),
+      nonce: BigInt(o.nonce),
+    },
+    signature: stored.signature,
+    createdAt: stored.createdAt,
+  };
+}
+
+function isSameOffer(a: StoredEntry["offer"], buyer: string, nonce: bigint): boolean {
+  return a.buyer.toLowerCase() === buyer.toLowerCase() && a.nonce === nonce.toString();
+}
+
+function toStored(entry: SignedOfferEntry): StoredEntry {
+  const { offer } = entry;
+  return {
+    offer: {
+      landId: offer.landId.toString(),
+      buyer: offer.buyer,
+      token: offer.token,
+      amount: offer.amount.toString(),
+      expiry: offer.expiry.toString(),
+      nonce: offer.nonce.toString(),
+    },
+    signature: entry.signature,
+    createdAt: entry.createdAt,
+  };
+}
+
+export function saveSignedOffer(entry: SignedOfferEntry): void {
+  const { offer } = entry;
+  writeAll([
+    ...readAll().filter((e) => !isSameOffer(e.offer, offer.buyer, offer.nonce)),
+    toStored(entry),
+  ]);
+}
+
+/**
+ * The offer and its signature as one base64url string the buyer can send the seller
+ */
+export function encodeOfferCode(entry: SignedOfferEntry): string {
+  return btoa(JSON.stringify(toStored(entry)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Read an offer code back; throws if `code` is not one. The signature is not
+ * checked here (see importSignedOffer).
+ */
+export function decodeOfferCode(code: string): SignedOfferEntry {
+  try {
+    const json = atob(code.trim().replace(/-/g, "+").replace(/_/g, "/"));
+    const stored = JSON.parse(json) as StoredEntry;
+    if (typeof stored.signature !== "string") throw new Error("missing signature");
+    return toEntry(stored);
+  } catch {
+    throw new Error("Not a valid offer code");
+  }
+}
+
+/**
+ * Signed offers for `landId`, newest first
+ */
+export function listSignedOffers(landId: string): SignedOfferEntry[] {
+  return readAll()
+    .filter((e) => e.offer.landId === landId)
+    .map(toEntry)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function removeSignedOffer(buyer: string, nonce: bigint): void {
+  writeAll(readAll().filter((e) => !isSameOffer(e.offer, buyer, nonce)));
+}
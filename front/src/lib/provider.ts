@@ -1,14 +1,14 @@
 // ========== ここから：src/lib/provider.ts ==========
 import { ethers } from "ethers";
+import { NETWORK } from "./network";
 
-const RPC_URL = import.meta.env.VITE_RPC_URL || "";
-
+/**
+ * 読み取り用の JsonRpcProvider（VITE_RPC_URL、既定は Hardhat のローカルノード）
+ * チェーンは NETWORK で固定なので、接続時のネットワーク検出は省く
+ */
 export function getLocalhostProvider(): ethers.JsonRpcProvider {
-  if (!RPC_URL) {
-    throw new Error("VITE_RPC_URL が設定されていません。");
-  }
   // ethers v6 では providers.JsonRpcProvider →  ethers.JsonRpcProvider
-  return new ethers.JsonRpcProvider(RPC_URL);
+  return new ethers.JsonRpcProvider(NETWORK.rpcUrl, NETWORK.chainId, { staticNetwork: true });
 }
 
 /**
@@ -0,0 +1,68 @@
+// src/lib/wallet.ts
+import { getAddress } from "ethers";
+
+/**
+ * Wallet state as the injected provider (MetaMask) reports it.
+ *
+ * Signers and contracts built from `connectAccount()` are bound to the account
+ * and chain selected when they were made, so the app keeps this state in
+ * AuthContext and rebuilds them whenever it changes.
+ */
+
+export interface WalletState {
+  account: string | null; // checksummed, null when locked or disconnected
+  chainId: number | null;
+}
+
+const DISCONNECTED: WalletState = { account: null, chainId: null };
+
+function toState(accounts: unknown, chainIdHex: unknown): WalletState {
+  const account = Array.isArray(accounts) && typeof accounts[0] === "string" ? accounts[0] : null;
+  return {
+    account: account ? getAddress(account) : null,
+    chainId: typeof chainIdHex === "string" ? Number.parseInt(chainIdHex, 16) : null,
+  };
+}
+
+/** The selected account and chain, without prompting the user */
+export async function readWalletState(): Promise<WalletState> {
+  if (!window.ethereum) return DISCONNECTED;
+  const [accounts, chainIdHex] = await Promise.all([
+    window.ethereum.request({ method: "eth_accounts" }),
+    window.ethereum.request({ method: "eth_chainId" }),
+  ]);
+  return toState(accounts, chainIdHex);
+}
+
+/**
+ * Call `onChange` with the new state on `accountsChanged`, `chainChanged` and
+ * `disconnect`. Returns a function that removes the listeners.
+ */
+export function watchWallet(onChange: (state: WalletState) => void): () => void {
+  const ethereum = window.ethereum;
+  if (!ethereum?.on) return () => {};
+
+  const refresh = () => {
+    readWalletState()
+      .then(onChange)
+      .catch((err) => {
+        console.error("Failed to read wallet state:", err);
+        onChange(DISCONNECTED);
+      });
+  };
+  const onDisconnect = () => onChange(DISCONNECTED);
+
+  ethereum.on("accountsChanged", refresh);
+  ethereum.on("chainChanged", refresh);
+  ethereum.on("disconnect", onDisconnect);
+  return () => {
+    ethereum.removeListener?.("accountsChanged", refresh);
+    ethereum.removeListener?.("chainChanged", refresh);
+    ethereum.removeListener?.("disconnect", onDisconnect);
+  };
+}
+
+/** Whether the wallet's account is the one the session was signed in with */
+export function isSessionAccount(state: WalletState, sessionAddress: string): boolean {
+  return state.account !== null && state.account === getAddress(sessionAddress);
+}
@@ -0,0 +1,297 @@
+// src/pages/admin/dashboard.tsx
+import { useState, useEffect, useCallback } from "react";
+import { Landmark, Users, UserCheck, Wallet, UserPlus, UserMinus } from "lucide-react";
+import {
+  appointStaff,
+  revokeStaff,
+  fetchRegistryStats,
+  fetchStaffMembers,
+  fetchManualRate,
+  setManualRate,
+  fetchFeeSettings,
+  setFeeTreasury,
+  setRegistrationFee,
+  LAND_STATUS_NAMES,
+  type FeeSettings,
+  type RegistryStats,
+} from "../../lib/contracts";
+import { describeRate, rateSourceFromEnv, type ExchangeRate } from "../../lib/exchangeRate";
+import { formatRM, tryParseRM } from "../../lib/money";
+import { useAdminContract } from "../../hooks/useAdminContract";
+import { useAuth } from "../../AuthContext";
+import AdminOnly from "../../components/AdminOnly";
+
+export default function AdminDashboard() {
+  const { contract, isOwner, isChecking } = useAdminContract();
+  const { address } = useAuth();
+
+  const [stats, setStats] = useState<RegistryStats | null>(null);
+  const [staff, setStaff] = useState<string[]>([]);
+  const [newStaffAddress, setNewStaffAddress] = useState("");
+  const [manualRate, setManualRateState] = useState<ExchangeRate | null>(null);
+  const [newRate, setNewRate] = useState("");
+  const [feeSettings, setFeeSettings] = useState<FeeSettings | null>(null);
+  const [newTreasury, setNewTreasury] = useState("");
+  const [newRegistrationFee, setNewRegistrationFee] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDashboard = useCallback(async () => {
+    if (!contract || !address) return;
+    try {
+      const [s, members, rate, fees] = await Promise.all([
+        fetchRegistryStats(contract, address),
+        fetchStaffMembers(contract),
+        fetchManualRate(contract),
+        fetchFeeSettings(contract),
+      ]);
+      setStats(s);
+      setStaff(members);
+      setManualRateState(rate);
+      setFeeSettings(fees);
+    } catch (err) {
+      console.error("Failed to load admin dashboard:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [contract, address]);
+
+  useEffect(() => {
+    if (isOwner) loadDashboard();
+  }, [isOwner, loadDashboard]);
+
+  const runAdminAction = async (
+    action: () => Promise<{ wait: () => Promise<unknown> }>
+  ) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const tx = await action();
+      await tx.wait();
+      await loadDashboard();
+    } catch (err) {
+      console.error("Admin update failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const statCards = stats
+    ? [
+        { label: "Registered Parcels", value: stats.totalLands, icon: Landmark, color: "text-blue-600 bg-blue-50" },
+        { label: "Registered Users", value: stats.totalUsers, icon: Users, color: "text-green-600 bg-green-50" },
+        { label: "Staff Members", value: stats.totalStaff, icon: UserCheck, color: "text-purple-600 bg-purple-50" },
+        { label: "Escrow Balance (ETH)", value: stats.escrowBalanceEth, icon: Wallet, color: "text-yellow-600 bg-yellow-50" },
+      ]
+    : [];
+
+  return (
+    <AdminOnly isChecking={isChecking} isOwner={isOwner}>
+      <div className="max-w-[90%] mx-auto px-4 py-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">
+            Admin Dashboard
+          </h1>
+          <p className="text-gray-600">Registry overview and staff management</p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        {/* Totals */}
+        <div className="grid md:grid-cols-4 gap-4">
+          {statCards.map((card) => (
+            <div
+              key={card.label}
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-center space-x-4"
+            >
+              <div className={`p-3 rounded-full ${card.color}`}>
+                <card.icon className="w-6 h-6" />
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">{card.label}</p>
+                <p className="text-2xl font-semibold text-gray-900">{card.value}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Parcels by status */}
+        {stats && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">
+              Parcels by Status
+            </h2>
+            <div className="grid md:grid-cols-7 gap-4">
+              {stats.landsByStatus.map((count, status) => (
+                <div key={status} className="text-center">
+                  <p className="text-2xl font-semibold text-gray-900">{count}</p>
+                  <p className="text-xs text-gray-500">
+                    {LAND_STATUS_NAMES[status] ?? `Status ${status}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Manual MYR/ETH rate */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-1">MYR/ETH Rate</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Used for MYR conversions when the app's rate source is "manual"
+            (current source: {rateSourceFromEnv()}), and always to value ETH sales for
+            transfer fees and the foreign-ownership minimum.{" "}
+            {manualRate ? `Set rate: ${describeRate(manualRate)}` : "No manual rate set yet."}
+          </p>
+          <div className="flex gap-3">
+            <input
+              type="number"
+              min="0"
+              placeholder="RM per 1 ETH"
+              value={newRate}
+              onChange={(e) => setNewRate(e.target.value)}
+              disabled={isSubmitting}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={() =>
+                runAdminAction(async () => {
+                  const tx = await setManualRate(newRate);
+                  setNewRate("");
+                  return tx;
+                })
+              }
+              disabled={isSubmitting || !((tryParseRM(newRate) ?? 0n) > 0n)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Set Rate
+            </button>
+          </div>
+        </div>
+
+        {/* Stamp duty / registration fee schedule */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-1">Transfer Fees</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            {feeSettings ? (
+              <>
+                Buyers pay tiered MOT stamp duty plus a registration fee of RM{" "}
+                {formatRM(feeSettings.registrationFeeSen)} on top of the price. Fees are
+                credited to{" "}
+                <span className="font-mono">{feeSettings.treasury}</span>.
+              </>
+            ) : (
+              "No fee schedule is set on the registry; sales are fee-free."
+            )}
+          </p>
+          {feeSettings && (
+            <div className="space-y-3">
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  placeholder="0x... treasury address"
+                  value={newTreasury}
+                  onChange={(e) => setNewTreasury(e.target.value)}
+                  disabled={isSubmitting}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() =>
+                    runAdminAction(async () => {
+                      const tx = await setFeeTreasury(newTreasury.trim());
+                      setNewTreasury("");
+                      return tx;
+                    })
+                  }
+                  disabled={isSubmitting || !newTreasury.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Set Treasury
+                </button>
+              </div>
+              <div className="flex gap-3">
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="Registration fee (RM)"
+                  value={newRegistrationFee}
+                  onChange={(e) => setNewRegistrationFee(e.target.value)}
+                  disabled={isSubmitting}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() =>
+                    runAdminAction(async () => {
+                      const tx = await setRegistrationFee(newRegistrationFee);
+                      setNewRegistrationFee("");
+                      return tx;
+                    })
+                  }
+                  disabled={isSubmitting || tryParseRM(newRegistrationFee) === null}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Set Fee
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Staff management */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Staff</h2>
+          <div className="flex gap-3 mb-6">
+            <input
+              type="text"
+              placeholder="0x... wallet address"
+              value={newStaffAddress}
+              onChange={(e) => setNewStaffAddress(e.target.value)}
+              disabled={isSubmitting}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={() =>
+                runAdminAction(async () => {
+                  const tx = await appointStaff(newStaffAddress.trim());
+                  setNewStaffAddress("");
+                  return tx;
+                })
+              }
+              disabled={isSubmitting || !newStaffAddress.trim()}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Appoint
+            </button>
+          </div>
+
+          {staff.length === 0 ? (
+            <p className="text-sm text-gray-500">No staff appointed yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {staff.map((member) => (
+                <li key={member} className="py-3 flex items-center justify-between">
+                  <span className="font-mono text-sm text-gray-800 break-all">
+                    {member}
+                  </span>
+                  <button
+                    onClick={() => runAdminAction(() => revokeStaff(member))}
+                    disabled={isSubmitting}
+                    className="flex items-center text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    <UserMinus className="w-4 h-4 mr-1" />
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </AdminOnly>
+  );
+}
@@ -0,0 +1,152 @@
+// src/pages/admin/property.tsx
+import { useState, useEffect } from "react";
+import { Search } from "lucide-react";
+import { formatEther, formatUnits, ZeroAddress } from "ethers";
+import {
+  fetchAllLandDetails,
+  fetchPaymentTokens,
+  LAND_STATUS_NAMES,
+  type LandOnchainDetails,
+  type PaymentToken,
+} from "../../lib/contracts";
+import { useAdminContract } from "../../hooks/useAdminContract";
+import AdminOnly from "../../components/AdminOnly";
+
+const orNone = (addr: string) => (addr === ZeroAddress ? "—" : addr);
+
+export default function AdminProperties() {
+  const { contract, isOwner, isChecking } = useAdminContract();
+  const [lands, setLands] = useState<LandOnchainDetails[]>([]);
+  const [tokens, setTokens] = useState<PaymentToken[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<number | "All">("All");
+
+  useEffect(() => {
+    if (!contract || !isOwner) return;
+    setIsLoading(true);
+    Promise.all([fetchAllLandDetails(contract), fetchPaymentTokens(contract)])
+      .then(([details, paymentTokens]) => {
+        setLands(details);
+        setTokens(paymentTokens);
+      })
+      .catch((err) => {
+        console.error("Failed to load land details:", err);
+        setLands([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [contract, isOwner]);
+
+  // ETH listings in ETH, token listings in their token
+  const formatPrice = (land: LandOnchainDetails) => {
+    if (land.paymentToken === ZeroAddress) return `${formatEther(land.priceWei)} ETH`;
+    const token = tokens.find((t) => t.address === land.paymentToken);
+    return token
+      ? `${formatUnits(land.priceWei, token.decimals)} ${token.symbol}`
+      : `${land.priceWei} units of ${land.paymentToken}`;
+  };
+
+  const filteredLands = lands.filter((land) => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      land.landId.includes(term) ||
+      land.owner.toLowerCase().includes(term) ||
+      land.publicCID.toLowerCase().includes(term);
+    const matchesStatus = statusFilter === "All" || land.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  return (
+    <AdminOnly isChecking={isChecking} isOwner={isOwner}>
+      <div className="max-w-[90%] mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">All Parcels</h1>
+          <p className="text-gray-600">Full on-chain state of every registered parcel</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="md:col-span-3 relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search by land ID, owner address, or CID..."
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            <select
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={statusFilter}
+              onChange={(e) =>
+                setStatusFilter(e.target.value === "All" ? "All" : Number(e.target.value))
+              }
+            >
+              <option value="All">All Status</option>
+              {LAND_STATUS_NAMES.map((name, value) => (
+                <option key={name} value={value}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="bg-white shadow-sm border border-gray-200 rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["ID", "Status", "Owner", "Price", "Pending Buyer", "Verified By", "CIDs"].map((h) => (
+                    <th
+                      key={h}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                      Loading parcels...
+                    </td>
+                  </tr>
+                ) : (
+                  filteredLands.map((land) => (
+                    <tr key={land.landId} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-3 font-medium text-gray-900">#{land.landId}</td>
+                      <td className="px-4 py-3">
+                        <span className="text-gray-900">
+                          {LAND_STATUS_NAMES[land.status] ?? land.status}
+                        </span>
+                        {land.rejectionReason && (
+                          <p className="text-xs text-red-600 mt-1">{land.rejectionReason}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs text-gray-600 break-all">{land.owner}</td>
+                      <td className="px-4 py-3 text-gray-900">{formatPrice(land)}</td>
+                      <td className="px-4 py-3 font-mono text-xs text-gray-600 break-all">
+                        {orNone(land.pendingBuyer)}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs text-gray-600 break-all">
+                        {orNone(land.verifiedBy)}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs text-gray-500 break-all">
+                        <p>public: {land.publicCID || "—"}</p>
+                        <p>geran: {land.metadataCID || "—"}</p>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </AdminOnly>
+  );
+}
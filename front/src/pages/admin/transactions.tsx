@@ -0,0 +1,104 @@
+// src/pages/admin/transactions.tsx
+import { useState, useEffect } from "react";
+import { formatEther } from "ethers";
+import {
+  fetchRegistryTransactions,
+  type RegistryTransaction,
+} from "../../lib/contracts";
+import { useAdminContract } from "../../hooks/useAdminContract";
+import AdminOnly from "../../components/AdminOnly";
+
+const eventLabels: Record<RegistryTransaction["event"], { label: string; color: string }> = {
+  LandRegistered: { label: "Registered", color: "bg-orange-100 text-orange-800" },
+  LandListed: { label: "Listed", color: "bg-blue-100 text-blue-800" },
+  PurchaseRequested: { label: "Purchase Requested", color: "bg-yellow-100 text-yellow-800" },
+  LandOwnershipTransferred: { label: "Ownership Transferred", color: "bg-green-100 text-green-800" },
+};
+
+export default function AdminTransactions() {
+  const { contract, isOwner, isChecking } = useAdminContract();
+  const [transactions, setTransactions] = useState<RegistryTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!contract || !isOwner) return;
+    setIsLoading(true);
+    fetchRegistryTransactions(contract)
+      .then(setTransactions)
+      .catch((err) => {
+        console.error("Failed to load registry events:", err);
+        setTransactions([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [contract, isOwner]);
+
+  return (
+    <AdminOnly isChecking={isChecking} isOwner={isOwner}>
+      <div className="max-w-[90%] mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">Transactions</h1>
+          <p className="text-gray-600">
+            Registrations, listings and transfers recorded on-chain
+          </p>
+        </div>
+
+        <div className="bg-white shadow-sm border border-gray-200 rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Block", "Event", "Land ID", "Account", "Price (ETH)", "Transaction"].map((h) => (
+                    <th
+                      key={h}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Loading transactions...
+                    </td>
+                  </tr>
+                ) : transactions.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                      No transactions recorded yet.
+                    </td>
+                  </tr>
+                ) : (
+                  transactions.map((tx, i) => (
+                    <tr key={`${tx.txHash}-${tx.event}-${i}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-900">{tx.blockNumber}</td>
+                      <td className="px-6 py-4">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${eventLabels[tx.event].color}`}
+                        >
+                          {eventLabels[tx.event].label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">#{tx.landId}</td>
+                      <td className="px-6 py-4 text-sm font-mono text-gray-600 max-w-xs truncate">
+                        {tx.account || "—"}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {tx.priceWei !== null ? formatEther(tx.priceWei) : "—"}
+                      </td>
+                      <td className="px-6 py-4 text-xs font-mono text-gray-500 max-w-xs truncate">
+                        {tx.txHash}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </AdminOnly>
+  );
+}
@@ -17,7 +17,9 @@ import {
 import { SiweMessage } from "siwe";
 import { ethers } from "ethers";
 import { useAuth } from "../AuthContext";
-import { useNavigate } from "react-router-dom";
+import { fetchNonce, verifySignIn } from "../lib/authSession";
+import { isExpectedChain, switchToExpectedNetwork } from "../lib/network";
+import { useLocation, useNavigate } from "react-router-dom";
 
 type WalletStatus = "disconnected" | "connecting" | "connected" | "error";
 
@@ -36,21 +38,17 @@ export default function LoginPage() {
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const { login } = useAuth();
   const navigate = useNavigate();
+  // AuthContext がウォレットのアカウント変更で再ログインを求めたときの案内
+  const notice = (useLocation().state as { notice?: string } | null)?.notice;
 
-  /**
-   * connectMetaMask:
-   *  1) window.ethereum.request({ method: 'eth_requestAccounts' }) で接続
-   *  2) 接続に成功したら walletStatus='connected'
-   *  3) そのまま SIWE を試みるが、SIWE 部分は try/catch で囲い、
-   *     もしエラーが起きても「接続」は維持する
-   */
   /**
    * connectMetaMask:
    *  1) ウォレット接続(eth_requestAccounts) を行い、チェックサム付きアドレスを取得
-   *  2) AuthContext.login(userAddress) で address を保存
-   *  3) walletStatus を 'connected' にして UI 切り替え
-   *  4) SIWE メッセージの署名を試みる (失敗しても接続は維持)
-   *  5) 成功時に '/user/dashboard' へ遷移
+   *  2) レジストリのチェーンでなければ切り替え（未登録なら追加）を求める
+   *  3) 認証サービスから nonce を取得し、SIWE メッセージに署名
+   *  4) 署名をサービスで検証し、発行されたセッションで AuthContext.login(session)
+   *     (署名・検証に失敗した場合はログインしない)
+   *  5) 成功時に '/user/properties' へ遷移
    */
   const connectMetaMask = async () => {
     setWalletStatus("connecting");
@@ -75,55 +73,46 @@ export default function LoginPage() {
       const userAddress = ethers.getAddress(rawAddress);
       console.log("MetaMask connected. Checksum Address:", userAddress);
 
-      // STEP3: SIWE の署名を試みる
-      try {
-        const provider = new ethers.BrowserProvider(window.ethereum);
-        const signer = await provider.getSigner();
-        const network = await provider.getNetwork();
+      // STEP2: 別チェーンならここで切り替えてもらう（断られたらログインしない）
+      const chainIdHex: string = await window.ethereum.request({ method: "eth_chainId" });
+      if (!isExpectedChain(Number.parseInt(chainIdHex, 16))) {
+        await switchToExpectedNetwork();
+      }
 
-        const siweMessage = new SiweMessage({
-          domain: window.location.host,
-          address: userAddress,
-          statement: "Sign in with Ethereum to authenticate.",
-          uri: window.location.origin,
-          version: "1",
-          chainId: Number(network.chainId),
-          nonce: Math.random().toString(36).substring(2, 15),
-        });
+      // STEP3: サーバー発行の nonce で SIWE メッセージを作成して署名
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const signer = await provider.getSigner();
+      const network = await provider.getNetwork();
 
-        const messageToSign = siweMessage.prepareMessage();
-        console.log("[SIWE] Message to sign:", messageToSign);
-        const signature = await signer.signMessage(messageToSign);
-        console.log("[SIWE] Signature:", signature);
-      } catch (siweError: any) {
-        console.warn(
-          "⚠️ SIWE signing failed, but user remains connected:",
-          siweError.message
-        );
-        setErrors((prev) => ({
-          ...prev,
-          wallet: `⚠️ SIWE signing failed: ${siweError.message}`,
-        }));
-      }
-      setWalletAddress(userAddress);
+      const siweMessage = new SiweMessage({
+        domain: window.location.host,
+        address: userAddress,
+        statement: "Sign in with Ethereum to authenticate.",
+        uri: window.location.origin,
+        version: "1",
+        chainId: Number(network.chainId),
+        nonce: await fetchNonce(),
+      });
+
+      const messageToSign = siweMessage.prepareMessage();
+      const signature = await signer.signMessage(messageToSign);
 
-      // STEP2: AuthContext を通じてアドレスを保存
-      login(userAddress);
-      console.log("[Auth] login() called with:", userAddress);
+      // STEP4: 署名をサーバーで検証し、セッションを受け取る
+      const session = await verifySignIn(messageToSign, signature);
+      setWalletAddress(session.address);
+      await login(session);
+      console.log("[Auth] Session issued for:", session.address);
 
-      // ウォレットステータスを “connected” に更新
       setWalletStatus("connected");
-      // STEP4: ログイン後にダッシュボードへ遷移
-      //navigate('/user/dashboard')
       navigate('/user/properties');
     } catch (error: any) {
       console.error("connectMetaMask error:", error);
       setWalletStatus("error");
-      if (error.code === 4001) {
-        setErrors({ wallet: "Connection was rejected by user." });
+      if (error.code === 4001 || error.code === "ACTION_REJECTED") {
+        setErrors({ wallet: "Connection or signature was rejected by user." });
       } else {
         setErrors({
-          wallet: `Failed to connect to MetaMask: ${error.message}`,
+          wallet: `Sign-in failed: ${error.message}`,
         });
       }
     }
@@ -215,6 +204,16 @@ export default function LoginPage() {
                 </p>
               )}
 
+              {/* Re-login notice */}
+              {notice && walletStatus !== "connected" && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm text-yellow-800 flex items-center">
+                    <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                    {notice}
+                  </p>
+                </div>
+              )}
+
               {/* Wallet Error */}
               {errors.wallet && (
                 <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
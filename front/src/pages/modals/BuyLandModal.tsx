@@ -1,8 +1,42 @@
 // src/components/BuyLandModal.tsx
 import { Dialog, Transition } from "@headlessui/react";
-import { Fragment, useState } from "react";
-import { RM_PER_ETH, requestToBuyLand } from "../../lib/contracts"; // ← ここで requestToBuyLand をインポート
+import { Fragment, useEffect, useState } from "react";
+import { formatEther, formatUnits, ZeroAddress } from "ethers";
+import {
+  requestToBuyLand,
+  makeOffer,
+  getCurrentRate,
+  getSaleInfo,
+  getReadOnlyContract,
+  fetchPaymentToken,
+  fetchTokenAllowance,
+  approvePaymentToken,
+  fetchSaleTerms,
+  fetchAmountDueOnRequest,
+  fetchPaymentTokens,
+  fetchFeeQuote,
+  fetchOfferFeeQuote,
+  fetchManualRate,
+  checkEligibility,
+  signOffer,
+  type EligibilityResult,
+  type FeeQuote,
+  type PaymentToken,
+  type SaleInfo,
+  type SaleTerms,
+} from "../../lib/contracts"; // ← ここで requestToBuyLand をインポート
+import { describeRate, rateDrift, type ExchangeRate } from "../../lib/exchangeRate";
+import {
+  formatEth,
+  formatRM,
+  senToTokenUnits,
+  senToWei,
+  tryParseRM,
+  weiToSen,
+} from "../../lib/money";
 import { useAuth } from "../../AuthContext";
+import { isExpectedChain } from "../../lib/network";
+import NetworkGuard from "../../components/NetworkGuard";
 
 interface BuyLandModalProps {
   isOpen: boolean;
@@ -10,27 +44,266 @@ interface BuyLandModalProps {
   landId: string;
   priceRM: string;
   onSubmit: (formData: FormData) => void; // ← これを追加
+  // "offer" lets the buyer escrow any amount instead of the listing price
+  mode?: "buy" | "offer";
 }
 
+// How long a signed offer stays acceptable unless the buyer picks otherwise
+const DEFAULT_OFFER_VALID_DAYS = "7";
+
+// Warn the buyer when MYR/ETH has moved more than this since the listing
+const RATE_DRIFT_WARNING = 0.02;
+
 export default function BuyLandModal({
   isOpen,
   onClose,
   landId,
   priceRM,
+  mode = "buy",
 }: BuyLandModalProps) {
-  const { address: walletAddress, userName } = useAuth();
+  const { address: walletAddress, userName, wallet } = useAuth();
+  // Approvals, offers and payments all need the registry's chain
+  const onWrongNetwork = !isExpectedChain(wallet.chainId);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [offerRM, setOfferRM] = useState("");
+  const [rate, setRate] = useState<ExchangeRate | null>(null);
+  const [saleInfo, setSaleInfo] = useState<SaleInfo | null>(null);
+  // Token listings: the token and how much of it the registry may already pull
+  const [paymentToken, setPaymentToken] = useState<PaymentToken | null>(null);
+  const [allowance, setAllowance] = useState<bigint | null>(null);
+  // Deposit listings escrow only amountDue now; the balance follows once the seller accepts
+  const [terms, setTerms] = useState<SaleTerms | null>(null);
+  const [amountDue, setAmountDue] = useState<bigint | null>(null);
+  // Stamp duty and registration fee, paid on top of the price with the full payment
+  const [fees, setFees] = useState<FeeQuote | null>(null);
+  const [offerFees, setOfferFees] = useState<FeeQuote | null>(null);
+  // Set when the registry cannot quote fees, e.g. ETH fees before the owner sets a MYR/ETH rate
+  const [feeError, setFeeError] = useState<string | null>(null);
+  // Owner-set rate the registry charges ETH fees at
+  const [registryRate, setRegistryRate] = useState<ExchangeRate | null>(null);
+  // Title restrictions checked against the buyer before anything is signed
+  const [eligibility, setEligibility] = useState<EligibilityResult | null>(null);
+  // Offers: ETH escrowed on-chain now, or an EIP-712 signature over a stablecoin amount
+  const [offerKind, setOfferKind] = useState<"escrow" | "signed">("escrow");
+  const [offerTokens, setOfferTokens] = useState<PaymentToken[]>([]);
+  const [offerToken, setOfferToken] = useState("");
+  const [validDays, setValidDays] = useState(DEFAULT_OFFER_VALID_DAYS);
+  const isOffer = mode === "offer";
+  const isTokenListing = !!saleInfo && saleInfo.paymentToken !== ZeroAddress;
+
+  // Start every offer from the listing price
+  useEffect(() => {
+    if (isOpen) setOfferRM(priceRM);
+  }, [isOpen, priceRM]);
+
+  // Stablecoins a signed offer can be made in
+  useEffect(() => {
+    if (!isOpen || mode !== "offer") return;
+    setValidDays(DEFAULT_OFFER_VALID_DAYS);
+    (async () => {
+      const accepted = (await fetchPaymentTokens(getReadOnlyContract())).filter((t) => t.accepted);
+      setOfferTokens(accepted);
+      setOfferToken(accepted[0]?.address ?? "");
+    })().catch((e) => console.error("Failed to load payment tokens:", e));
+  }, [isOpen, mode]);
+
+  // Fees on an offer follow the offered amount: escrowed with an ETH offer, pulled with a signed one
+  useEffect(() => {
+    setOfferFees(null);
+    const sen = tryParseRM(offerRM);
+    const token = offerTokens.find((t) => t.address === offerToken);
+    if (!isOpen || mode !== "offer" || sen === null || sen === 0n) return;
+    let payment: { token: string; amount: bigint } | null;
+    if (offerKind === "signed") {
+      payment = token ? { token: token.address, amount: senToTokenUnits(sen, token.decimals) } : null;
+    } else {
+      payment = rate ? { token: ZeroAddress, amount: senToWei(sen, rate.senPerEth) } : null;
+    }
+    if (!payment) return;
+    const { token: paymentTokenAddress, amount } = payment;
+    (async () => {
+      setOfferFees(await fetchOfferFeeQuote(getReadOnlyContract(), paymentTokenAddress, amount));
+    })().catch((e) => console.error("Failed to load offer fees:", e));
+  }, [isOpen, mode, offerKind, offerRM, offerToken, offerTokens, rate]);
+
+  // Pre-check the same rules the registry enforces, for the amount this buyer would pay
+  useEffect(() => {
+    setEligibility(null);
+    if (!isOpen || !saleInfo || !walletAddress) return;
+    const sen = tryParseRM(offerRM);
+    const token = offerTokens.find((t) => t.address === offerToken);
+    let payment: { token: string; amount: bigint } | null;
+    if (mode !== "offer") {
+      payment = { token: saleInfo.paymentToken, amount: saleInfo.priceWei };
+    } else if (sen === null || sen === 0n) {
+      payment = null;
+    } else if (offerKind === "signed") {
+      payment = token
+        ? { token: token.address, amount: senToTokenUnits(sen, token.decimals) }
+        : null;
+    } else {
+      payment = rate ? { token: ZeroAddress, amount: senToWei(sen, rate.senPerEth) } : null;
+    }
+    if (!payment) return;
+    const { token: paymentTokenAddress, amount } = payment;
+    (async () => {
+      setEligibility(
+        await checkEligibility(
+          getReadOnlyContract(),
+          landId,
+          walletAddress,
+          paymentTokenAddress,
+          amount
+        )
+      );
+    })().catch((e) => console.error("Eligibility check failed:", e));
+  }, [isOpen, landId, mode, saleInfo, walletAddress, offerRM, offerKind, offerToken, offerTokens, rate]);
+  const isIneligible = !!eligibility && eligibility.refusal !== "None";
+
+  // ETH escrow offers are not possible on token listings
+  useEffect(() => {
+    setOfferKind(isTokenListing ? "signed" : "escrow");
+  }, [isTokenListing]);
+
+  // The listed ETH price and today's MYR/ETH rate
+  useEffect(() => {
+    if (!isOpen) return;
+    setRate(null);
+    setSaleInfo(null);
+    getCurrentRate()
+      .then(setRate)
+      .catch((e) => {
+        console.error("Failed to load MYR/ETH rate:", e);
+        setError("MYR/ETH rate unavailable; try again shortly");
+      });
+    setPaymentToken(null);
+    setAllowance(null);
+    getSaleInfo(landId)
+      .then(setSaleInfo)
+      .catch((e) => console.error("Failed to load sale info:", e));
+    setTerms(null);
+    setAmountDue(null);
+    setFees(null);
+    setFeeError(null);
+    setRegistryRate(null);
+    (async () => {
+      const contract = getReadOnlyContract();
+      const [t, manualRate] = await Promise.all([
+        fetchSaleTerms(contract, landId),
+        fetchManualRate(contract),
+      ]);
+      setTerms(t);
+      setRegistryRate(manualRate);
+      try {
+        const [due, quote] = await Promise.all([
+          fetchAmountDueOnRequest(contract, landId),
+          fetchFeeQuote(contract, landId),
+        ]);
+        setAmountDue(due);
+        setFees(quote);
+      } catch (e) {
+        setFeeError(manualRate ? "Fees unavailable; try again shortly" : "Fees unavailable: rate not set");
+        throw e;
+      }
+    })().catch((e) => console.error("Failed to load sale terms:", e));
+  }, [isOpen, landId]);
+
+  useEffect(() => {
+    if (!saleInfo || saleInfo.paymentToken === ZeroAddress || !walletAddress) return;
+    const tokenAddress = saleInfo.paymentToken;
+    (async () => {
+      const [token, approved] = await Promise.all([
+        fetchPaymentToken(getReadOnlyContract(), tokenAddress),
+        fetchTokenAllowance(tokenAddress, walletAddress),
+      ]);
+      setPaymentToken(token);
+      setAllowance(approved);
+    })().catch((e) => console.error("Failed to load payment token:", e));
+  }, [saleInfo, walletAddress]);
+
+  const hasDeposit = !!terms && terms.depositBps > 0;
+  const escrowNow = amountDue ?? saleInfo?.priceWei ?? 0n;
+  const needsApproval =
+    isTokenListing && !isOffer && allowance !== null && allowance < escrowNow;
+  const formatTokenAmount = (amount: bigint) =>
+    paymentToken ? `${formatUnits(amount, paymentToken.decimals)} ${paymentToken.symbol}` : null;
+  // Listing-currency amount, with its MYR value at the rate the registry charged the fees at
+  const formatListingAmount = (amount: bigint) => {
+    if (isTokenListing) return formatTokenAmount(amount) ?? "…";
+    const eth = `${formatEther(amount)} ETH`;
+    return registryRate ? `${eth} (RM ${formatRM(weiToSen(amount, registryRate.senPerEth))})` : eth;
+  };
+  const tokenPrice = isTokenListing ? formatTokenAmount(saleInfo.priceWei) : null;
+  const depositDue = !hasDeposit
+    ? null
+    : isTokenListing
+    ? formatTokenAmount(escrowNow)
+    : formatListingAmount(escrowNow);
+
+  // Step 1 of a token purchase: let the registry pull exactly the amount due into escrow
+  const handleApprove = async () => {
+    if (!saleInfo || !paymentToken) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const tx = await approvePaymentToken(paymentToken.address, escrowNow);
+      await tx.wait();
+      setAllowance(await fetchTokenAllowance(paymentToken.address, walletAddress!));
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : "Approval failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-  // RM → ETH に換算
-  const rmValue = parseFloat(priceRM.replace(/[^0-9.]/g, ""));
-  const ethValue = (rmValue / RM_PER_ETH).toFixed(6);
+  // The buyer pays exactly the listed wei; offers are converted at today's rate
+  const listedEth = saleInfo ? formatEther(saleInfo.priceWei) : null;
+  const listingRate =
+    saleInfo && saleInfo.listingRateSenPerEth > 0n ? saleInfo.listingRateSenPerEth : null;
+  const priceNowRM =
+    saleInfo && rate ? formatRM(weiToSen(saleInfo.priceWei, rate.senPerEth)) : null;
+  const drift = listingRate && rate ? rateDrift(listingRate, rate.senPerEth) : 0;
+
+  const offerSen = tryParseRM(offerRM);
+  const isOfferValid = offerSen !== null && offerSen > 0n;
+  const isSignedOffer = isOffer && offerKind === "signed";
+  const signedToken = offerTokens.find((t) => t.address === offerToken) ?? null;
+  const ethValue = isOffer
+    ? rate && isOfferValid
+      ? formatEth(senToWei(offerSen, rate.senPerEth))
+      : "—"
+    : listedEth ?? "—";
+
+  // Signing is free, but the registry pulls the amount and fees on acceptance. Other signed
+  // offers may be counting on the current allowance, so this one's total is added on top of it.
+  const handleSignOffer = async () => {
+    if (!signedToken || offerSen === null || !walletAddress || !offerFees) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const amount = senToTokenUnits(offerSen, signedToken.decimals) + offerFees.total;
+      const approved = await fetchTokenAllowance(signedToken.address, walletAddress);
+      await (await approvePaymentToken(signedToken.address, approved + amount)).wait();
+      await signOffer(landId, offerRM, signedToken.address, Number(validDays) * 86400);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : "Failed to sign offer");
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const handleSubmit = async () => {
+    if (isSignedOffer) return handleSignOffer();
     setIsLoading(true);
     setError(null);
     try {
-      const receipt = await requestToBuyLand(landId, priceRM);
+      const receipt = isOffer
+        ? await makeOffer(landId, offerRM)
+        : await requestToBuyLand(landId);
       await receipt.wait(); // wait for tx to be mined
       onClose();
       window.location.reload(); // or trigger re-fetch of properties
@@ -70,7 +343,7 @@ export default function BuyLandModal({
             >
               <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 shadow-xl transition-all">
                 <Dialog.Title className="text-xl font-semibold text-gray-900">
-                  Purchase Land
+                  {isOffer ? "Make an Offer" : "Purchase Land"}
                 </Dialog.Title>
 
                 <div className="mt-4 space-y-4">
@@ -83,19 +356,191 @@ export default function BuyLandModal({
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">
-                      Price (MYR)
+                      {isOffer ? "Listing Price (MYR)" : "Price (MYR)"}
                     </label>
                     <p className="mt-1 text-gray-800">{priceRM}</p>
                   </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Price (ETH){" "}
-                      <span className="text-xs text-gray-500">
-                        (1 ETH = RM {RM_PER_ETH})
-                      </span>
-                    </label>
-                    <p className="mt-1 text-gray-800">{ethValue}</p>
-                  </div>
+                  {isOffer && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Your Offer (MYR)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={offerRM}
+                        onChange={(e) => setOfferRM(e.target.value)}
+                        disabled={isLoading}
+                        className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        {isSignedOffer
+                          ? "Nothing is escrowed: the seller can accept your signed offer until it expires or you cancel it. Send them its code from the parcel's Signed Offers list."
+                          : "The amount plus stamp duty and the registration fee is held in escrow until the seller accepts another offer or you withdraw it."}
+                      </p>
+                    </div>
+                  )}
+                  {isOffer && offerTokens.length > 0 && (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Offer Type
+                        </label>
+                        <select
+                          value={offerKind}
+                          onChange={(e) => setOfferKind(e.target.value as "escrow" | "signed")}
+                          disabled={isLoading || isTokenListing}
+                          className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 disabled:bg-gray-100"
+                        >
+                          <option value="escrow">Escrow ETH now (on-chain)</option>
+                          <option value="signed">Signed offer in a MYR stablecoin (no gas)</option>
+                        </select>
+                      </div>
+                      {isSignedOffer && (
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700">
+                              Pay In
+                            </label>
+                            <select
+                              value={offerToken}
+                              onChange={(e) => setOfferToken(e.target.value)}
+                              disabled={isLoading}
+                              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2"
+                            >
+                              {offerTokens.map((t) => (
+                                <option key={t.address} value={t.address}>
+                                  {t.symbol}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700">
+                              Valid For (days)
+                            </label>
+                            <input
+                              type="number"
+                              min="1"
+                              value={validDays}
+                              onChange={(e) => setValidDays(e.target.value)}
+                              disabled={isLoading}
+                              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2"
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {isSignedOffer ? null : isTokenListing && !isOffer ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Price ({paymentToken?.symbol ?? "token"})
+                      </label>
+                      <p className="mt-1 text-gray-800">{tokenPrice ?? "Loading..."}</p>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {needsApproval
+                          ? `Step 1 of 2: approve the registry to escrow ${formatTokenAmount(escrowNow) ?? tokenPrice}, then confirm the purchase.`
+                          : "Paid in a MYR stablecoin (1 token = RM 1); no ETH rate applies."}
+                      </p>
+                    </div>
+                  ) : (
+                    <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        {isOffer ? "Offer (ETH)" : "Price (ETH)"}
+                      </label>
+                      <p className="mt-1 text-gray-800">{ethValue}</p>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {rate ? describeRate(rate) : "Loading MYR/ETH rate..."}
+                      </p>
+                    </div>
+                    {!isOffer && priceNowRM !== null && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Price at Today's Rate (MYR)
+                        </label>
+                        <p className="mt-1 text-gray-800">
+                          {priceNowRM}
+                        </p>
+                        {listingRate !== null && (
+                          <p className="mt-1 text-xs text-gray-500">
+                            Listed at 1 ETH = RM {formatRM(listingRate)}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    {!isOffer && Math.abs(drift) > RATE_DRIFT_WARNING && (
+                      <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                        MYR/ETH has {drift > 0 ? "risen" : "fallen"}{" "}
+                        {(Math.abs(drift) * 100).toFixed(1)}% since this land was
+                        listed. You pay the listed {listedEth} ETH, which is now
+                        worth about RM{" "}
+                        {priceNowRM} rather than RM {priceRM}.
+                      </div>
+                    )}
+                    </>
+                  )}
+                  {!isOffer && saleInfo && fees && (
+                    <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                      <p className="font-medium text-gray-700 mb-2">Cost Breakdown</p>
+                      <dl className="space-y-1">
+                        <div className="flex justify-between">
+                          <dt className="text-gray-600">Land price</dt>
+                          <dd className="text-gray-900">{formatListingAmount(saleInfo.priceWei)}</dd>
+                        </div>
+                        <div className="flex justify-between">
+                          <dt className="text-gray-600">Stamp duty (MOT)</dt>
+                          <dd className="text-gray-900">{formatListingAmount(fees.stampDuty)}</dd>
+                        </div>
+                        <div className="flex justify-between">
+                          <dt className="text-gray-600">Registration fee</dt>
+                          <dd className="text-gray-900">{formatListingAmount(fees.registrationFee)}</dd>
+                        </div>
+                        <div className="flex justify-between border-t border-gray-200 pt-1 font-semibold">
+                          <dt className="text-gray-700">Total</dt>
+                          <dd className="text-gray-900">
+                            {formatListingAmount(saleInfo.priceWei + fees.total)}
+                          </dd>
+                        </div>
+                      </dl>
+                      <p className="mt-2 text-xs text-gray-500">
+                        {hasDeposit
+                          ? "Fees are paid with the balance and go to the land office treasury."
+                          : "Fees are escrowed with the price and go to the land office treasury on transfer."}
+                      </p>
+                    </div>
+                  )}
+                  {isSignedOffer && signedToken && offerFees && offerFees.total > 0n && (
+                    <p className="text-xs text-gray-500">
+                      On acceptance, stamp duty of{" "}
+                      {formatUnits(offerFees.stampDuty, signedToken.decimals)} and a registration
+                      fee of {formatUnits(offerFees.registrationFee, signedToken.decimals)}{" "}
+                      {signedToken.symbol} are pulled on top of your offer.
+                    </p>
+                  )}
+                  {isOffer && !isSignedOffer && offerFees && offerFees.total > 0n && (
+                    <p className="text-xs text-gray-500">
+                      Stamp duty of {formatEther(offerFees.stampDuty)} ETH and a registration fee
+                      of {formatEther(offerFees.registrationFee)} ETH are escrowed on top of your offer.
+                    </p>
+                  )}
+                  {!isOffer && hasDeposit && (
+                    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+                      <p className="font-medium">
+                        Deposit due now: {depositDue ?? "Loading..."} ({terms.depositBps / 100}%)
+                      </p>
+                      <p className="mt-1 text-xs">
+                        Once the seller accepts, the balance is due within{" "}
+                        {Math.round(terms.completionPeriod / 86400)} day(s). If it is
+                        not paid in time the deposit is{" "}
+                        {terms.forfeitOnDefault
+                          ? "forfeited to the seller"
+                          : "refunded to you"}
+                        .
+                      </p>
+                    </div>
+                  )}
                   {/* Buyer Info */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700">
@@ -113,9 +558,21 @@ export default function BuyLandModal({
                   </div>
                 </div>
 
+                {isIneligible && (
+                  <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    <p className="font-medium">You are not eligible to buy this land</p>
+                    <p className="mt-1">{eligibility.reason}</p>
+                  </div>
+                )}
+                {!isOffer && feeError && (
+                  <p className="mt-2 text-sm text-red-600">{feeError}</p>
+                )}
                 {error && (
                   <p className="mt-2 text-sm text-red-600">Error: {error}</p>
                 )}
+                <div className="mt-4">
+                  <NetworkGuard />
+                </div>
 
                 <div className="mt-6 flex justify-end space-x-3">
                   <button
@@ -131,10 +588,29 @@ export default function BuyLandModal({
                         ? "bg-gray-400 cursor-not-allowed"
                         : "bg-green-600 hover:bg-green-700"
                     }`}
-                    onClick={handleSubmit}
-                    disabled={isLoading}
+                    onClick={needsApproval ? handleApprove : handleSubmit}
+                    disabled={
+                      isLoading ||
+                      onWrongNetwork ||
+                      isIneligible ||
+                      (isSignedOffer
+                        ? !(isOfferValid && signedToken && offerFees && Number(validDays) > 0)
+                        : isOffer
+                        ? !(isOfferValid && rate)
+                        : !saleInfo || amountDue === null || (isTokenListing && allowance === null))
+                    }
                   >
-                    {isLoading ? "Processing..." : "Confirm Purchase"}
+                    {isLoading
+                      ? "Processing..."
+                      : isSignedOffer
+                      ? "Sign Offer"
+                      : isOffer
+                      ? "Submit Offer"
+                      : needsApproval
+                      ? `Approve ${paymentToken?.symbol ?? "Token"}`
+                      : hasDeposit
+                      ? "Pay Deposit"
+                      : "Confirm Purchase"}
                   </button>
                 </div>
               </Dialog.Panel>
@@ -1,8 +1,30 @@
 // src/modals/EditLandModal.tsx
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Dialog } from "@headlessui/react";
-import { Contract } from "ethers";
-import { ethers } from "ethers";
+import { ZeroAddress } from "ethers";
+import {
+  getReadOnlyContract,
+  fetchPaymentTokens,
+  getSaleInfo,
+  listLandForSaleInToken,
+  type PaymentToken,
+  listLandForSale,
+  updateListingPrice,
+  delistLand,
+  markLandActive,
+  startLandAuction,
+  getCurrentRate,
+  fetchSaleTerms,
+  updateSaleTerms,
+  DEFAULT_SALE_TERMS,
+  OWNER_STATUS_TRANSITIONS,
+  type SaleTerms,
+} from "../../lib/contracts";
+import { describeRate, type ExchangeRate } from "../../lib/exchangeRate";
+import { formatEth, senToWei, tryParseRM } from "../../lib/money";
+import { isExpectedChain } from "../../lib/network";
+import { useAuth } from "../../AuthContext";
+import NetworkGuard from "../../components/NetworkGuard";
 
 interface Property {
   id: string;
@@ -15,68 +37,166 @@ interface Property {
   propertyType: "Residential" | "Commercial" | "Agricultural" | "Industrial";
   registrationDate: string;
   lastTransfer: string;
-  status: "Active" | "ForSale" | "Approved" | "PendingApproval";
+  status:
+    | "Active"
+    | "ForSale"
+    | "Approved"
+    | "PendingApproval"
+    | "PendingVerification"
+    | "Rejected"
+    | "InAuction";
   blockchainHash: string;
   surveyNumber: string;
   marketValue: string;
   encumbrances: string[];
   metadataCID: string;
+  rejectionReason: string;
 }
 
 interface EditLandModalProps {
   isOpen: boolean;
   onClose: () => void;
   property: Property | null;
-  contract: Contract | null;
   reloadLands: () => void;
 }
 
-const statusToEnum = (status: Property["status"]): number => {
-  const map: Record<Property["status"], number> = {
-    Active: 0,
-    ForSale: 1,
-    PendingApproval: 2,
-    Approved: 3,
-  };
-  return map[status];
-};
-
-export const RM_PER_ETH = 4000;
-
 const EditLandModal: React.FC<EditLandModalProps> = ({
   isOpen,
   onClose,
   property,
-  contract,
   reloadLands,
 }) => {
+  // Listing, price and auction changes are refused until the wallet is on the registry's chain
+  const { wallet } = useAuth();
+  const onWrongNetwork = !isExpectedChain(wallet.chainId);
   const [newStatus, setNewStatus] = useState<Property["status"]>("Active");
   const [newPrice, setNewPrice] = useState<string>("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rate, setRate] = useState<ExchangeRate | null>(null);
+  // Listing currency: ZeroAddress for ETH, otherwise a whitelisted MYR stablecoin
+  const [currency, setCurrency] = useState<string>(ZeroAddress);
+  const [tokens, setTokens] = useState<PaymentToken[]>([]);
+  // Auction terms, in MYR and hours
+  const [reserveRM, setReserveRM] = useState("");
+  const [incrementRM, setIncrementRM] = useState("");
+  const [durationHours, setDurationHours] = useState("72");
+  // Deposit / completion terms buyers agree to; saved before the listing goes live
+  const [savedTerms, setSavedTerms] = useState<SaleTerms | null>(null);
+  const [depositPercent, setDepositPercent] = useState("");
+  const [completionDays, setCompletionDays] = useState("");
+  const [forfeitOnDefault, setForfeitOnDefault] = useState(true);
+
+  // The MYR price is converted to ETH at this rate when saved
+  useEffect(() => {
+    if (!isOpen) return;
+    getCurrentRate()
+      .then(setRate)
+      .catch((err) => console.warn("MYR/ETH rate unavailable:", err));
+  }, [isOpen]);
+
+  // Start from the property's current state each time the modal opens
+  useEffect(() => {
+    if (isOpen && property) {
+      setNewStatus(property.status);
+      setNewPrice(property.marketValue);
+      setError(null);
+      setCurrency(ZeroAddress);
+    }
+  }, [isOpen, property]);
+
+  // Tokens a new listing can be priced in, and the currency of an existing listing
+  useEffect(() => {
+    if (!isOpen || !property) return;
+    (async () => {
+      const contract = getReadOnlyContract();
+      const [all, info, terms] = await Promise.all([
+        fetchPaymentTokens(contract),
+        getSaleInfo(property.id),
+        fetchSaleTerms(contract, property.id),
+      ]);
+      setTokens(all);
+      setCurrency(info.paymentToken);
+      setSavedTerms(terms);
+      // Parcels that never had terms start from the usual SPA terms
+      const shown =
+        property.status !== "ForSale" && terms.depositBps === 0 && terms.completionPeriod === 0
+          ? DEFAULT_SALE_TERMS
+          : terms;
+      setDepositPercent(String(shown.depositBps / 100));
+      setCompletionDays(String(shown.completionPeriod / 86400));
+      setForfeitOnDefault(shown.forfeitOnDefault);
+    })().catch((err) => console.warn("Failed to load payment tokens:", err));
+  }, [isOpen, property]);
 
   if (!property) return null;
 
-  const handleSave = async () => {
-    if (!contract) return;
+  const isListed = property.status === "ForSale";
+  const newPriceSen = tryParseRM(newPrice);
+  const selectedToken = tokens.find((t) => t.address === currency) ?? null;
+  // An existing listing keeps its currency; delist first to switch
+  const currencyOptions = isListed
+    ? tokens.filter((t) => t.address === currency)
+    : tokens.filter((t) => t.accepted);
+  // Only the current status and the moves the contract lets an owner make
+  const statusOptions = [property.status, ...OWNER_STATUS_TRANSITIONS[property.status]];
 
-    try {
-      const landId = BigInt(property.id);
+  const termsFromForm = (): SaleTerms => ({
+    depositBps: Math.round(Number(depositPercent) * 100),
+    completionPeriod: Math.round(Number(completionDays) * 86400),
+    forfeitOnDefault,
+  });
 
-      // Convert RM to ETH then to wei
-      const ethValue = parseFloat(newPrice) / RM_PER_ETH;
-      const priceWei = ethers.parseEther(ethValue.toString());
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Terms first, so buyers never see the listing without them
+      if (newStatus === "ForSale") {
+        const terms = termsFromForm();
+        if (
+          !savedTerms ||
+          terms.depositBps !== savedTerms.depositBps ||
+          terms.completionPeriod !== savedTerms.completionPeriod ||
+          terms.forfeitOnDefault !== savedTerms.forfeitOnDefault
+        ) {
+          await (await updateSaleTerms(property.id, terms)).wait();
+          setSavedTerms(terms);
+        }
+      }
 
-      // Call single smart contract function
-      const tx = await contract.updateLandDetails(
-        landId,
-        statusToEnum(newStatus),
-        priceWei
-      );
+      // Listing → listForSale, listed → price update or delist
+      let tx;
+      if (newStatus === "ForSale") {
+        tx = isListed
+          ? await updateListingPrice(property.id, newPrice)
+          : currency === ZeroAddress
+          ? await listLandForSale(property.id, newPrice)
+          : await listLandForSaleInToken(property.id, newPrice, currency);
+      } else if (newStatus === "Active" && isListed) {
+        tx = await delistLand(property.id);
+      } else if (newStatus === "Active" && property.status === "Approved") {
+        tx = await markLandActive(property.id);
+      } else if (newStatus === "InAuction") {
+        tx = await startLandAuction(
+          property.id,
+          reserveRM,
+          incrementRM,
+          Number(durationHours) * 3600
+        );
+      } else {
+        onClose();
+        return;
+      }
 
       await tx.wait();
       await reloadLands();
       onClose();
     } catch (err) {
       console.error("Failed to update land details:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -101,8 +221,11 @@ const EditLandModal: React.FC<EditLandModalProps> = ({
                   setNewStatus(e.target.value as Property["status"])
                 }
               >
-                <option value="Active">Active</option>
-                <option value="ForSale">ForSale</option>
+                {statusOptions.map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -112,25 +235,163 @@ const EditLandModal: React.FC<EditLandModalProps> = ({
               </label>
               <input
                 type="number"
-                className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+                className="mt-1 block w-full border border-gray-300 rounded-md p-2 disabled:bg-gray-100"
                 value={newPrice}
                 onChange={(e) => setNewPrice(e.target.value)}
+                disabled={newStatus !== "ForSale"}
               />
+              {newStatus === "ForSale" && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {newPriceSen === null
+                    ? "Enter a MYR amount with at most 2 decimals"
+                    : selectedToken
+                    ? `Priced in ${selectedToken.symbol} (1 ${selectedToken.symbol} = RM 1)`
+                    : !rate
+                    ? "Loading MYR/ETH rate..."
+                    : `≈ ${formatEth(senToWei(newPriceSen, rate.senPerEth))} ETH at ${describeRate(rate)}`}
+                </p>
+              )}
             </div>
+
+            {newStatus === "ForSale" && currencyOptions.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Settle In
+                </label>
+                <select
+                  className="mt-1 block w-full border border-gray-300 rounded-md p-2 disabled:bg-gray-100"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  disabled={isListed}
+                >
+                  <option value={ZeroAddress}>ETH</option>
+                  {currencyOptions.map((t) => (
+                    <option key={t.address} value={t.address}>
+                      {t.symbol} (MYR stablecoin)
+                    </option>
+                  ))}
+                </select>
+                {isListed && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Delist the property to change its settlement currency.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {newStatus === "ForSale" && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Deposit (%)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="99"
+                      step="0.01"
+                      className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+                      value={depositPercent}
+                      onChange={(e) => setDepositPercent(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Completion (days)
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      className="mt-1 block w-full border border-gray-300 rounded-md p-2 disabled:bg-gray-100"
+                      value={completionDays}
+                      onChange={(e) => setCompletionDays(e.target.value)}
+                      disabled={Number(depositPercent) === 0}
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={forfeitOnDefault}
+                    onChange={(e) => setForfeitOnDefault(e.target.checked)}
+                    disabled={Number(depositPercent) === 0}
+                  />
+                  Forfeit the deposit if the buyer misses the completion deadline
+                </label>
+                <p className="text-xs text-gray-500">
+                  {Number(depositPercent) === 0
+                    ? "No deposit: buyers escrow the full price when they request the property."
+                    : "Buyers escrow the deposit when they request the property; accepting it gives them the completion period to pay the balance."}
+                </p>
+              </div>
+            )}
+
+            {newStatus === "InAuction" && (
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Reserve Price (RM)
+                  </label>
+                  <input
+                    type="number"
+                    className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+                    value={reserveRM}
+                    onChange={(e) => setReserveRM(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Minimum Bid Increment (RM)
+                  </label>
+                  <input
+                    type="number"
+                    className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+                    value={incrementRM}
+                    onChange={(e) => setIncrementRM(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Duration (hours)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+                    value={durationHours}
+                    onChange={(e) => setDurationHours(e.target.value)}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Bids are in ETH; the reserve and increment are converted at{" "}
+                  {rate ? describeRate(rate) : "the current rate"}. Bidders pay stamp duty and the
+                  registration fee on top of their bid.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {error && <p className="mt-4 text-sm text-red-600">Error: {error}</p>}
+          <div className="mt-4">
+            <NetworkGuard />
           </div>
 
           <div className="mt-6 flex justify-end space-x-2">
             <button
               onClick={onClose}
+              disabled={isSaving}
               className="bg-gray-200 text-gray-800 px-4 py-2 rounded"
             >
               Cancel
             </button>
             <button
               onClick={handleSave}
-              className="bg-indigo-600 text-white px-4 py-2 rounded hover:bg-indigo-700"
+              disabled={isSaving || onWrongNetwork}
+              className="bg-indigo-600 text-white px-4 py-2 rounded hover:bg-indigo-700 disabled:opacity-50"
             >
-              Save
+              {isSaving ? "Saving..." : "Save"}
             </button>
           </div>
         </Dialog.Panel>
@@ -2,6 +2,8 @@ import { Dialog, Transition } from "@headlessui/react";
 import { Fragment, useState, useEffect } from "react";
 import { useAuth } from "../../AuthContext";
 import { listingLand } from "../../lib/contracts"; // adjust path as needed
+import { isExpectedChain } from "../../lib/network";
+import NetworkGuard from "../../components/NetworkGuard";
 
 interface AddLandModalProps {
   isOpen: boolean;
@@ -11,7 +13,9 @@ interface AddLandModalProps {
 
 export default function AddLandModal({ isOpen, onClose }: AddLandModalProps) {
   // ■ AuthContext からウォレットアドレスとユーザー名を取得
-  const { address: walletAddress, userName } = useAuth();
+  const { address: walletAddress, userName, wallet } = useAuth();
+  // 別チェーンでは登録できないので、切り替えるまで Submit を無効化
+  const onWrongNetwork = !isExpectedChain(wallet.chainId);
 
   // ■ フォーム項目の state
   const [titleNumber, setTitleNumber] = useState("");
@@ -62,7 +66,7 @@ export default function AddLandModal({ isOpen, onClose }: AddLandModalProps) {
       console.log("▶ Transaction Hash:", tx.hash);
 
       await tx.wait();
-      alert("✅ Land Successfully registered");
+      alert("✅ Land submitted. It will be listed once land office staff verify it.");
       onClose();
       window.location.reload(); 
     } catch (err: any) {
@@ -206,6 +210,10 @@ export default function AddLandModal({ isOpen, onClose }: AddLandModalProps) {
                   </div>
                 </div>
 
+                <div className="mt-6">
+                  <NetworkGuard />
+                </div>
+
                 {/* Cancel / Submit ボタン */}
                 <div className="mt-6 flex justify-end space-x-3">
                   <button
@@ -226,6 +234,7 @@ export default function AddLandModal({ isOpen, onClose }: AddLandModalProps) {
                     onClick={handleSubmit}
                     disabled={
                       isLoading ||
+                      onWrongNetwork ||
                       !titleNumber.trim() ||
                       !landType ||
                       !priceRM.trim() ||
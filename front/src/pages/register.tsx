@@ -12,6 +12,7 @@ import {
 } from "lucide-react";
 import { useNavigate } from 'react-router-dom';
 import { connectAccount, registerUserWithCID } from "../lib/contracts";
+import { formatEth } from "../lib/money";
 
 // Types
 interface FormData {
@@ -98,9 +99,7 @@ const RegistrationPage: React.FC = () => {
         });
         console.log("💰 eth_getBalance の戻り → balanceHex:", balanceHex);
 
-        const balanceInEther = (
-          parseInt(balanceHex, 16) / Math.pow(10, 18)
-        ).toFixed(4);
+        const balanceInEther = formatEth(BigInt(balanceHex), 4);
         console.log(`💰 残高（ETH 単位）: ${balanceInEther}`);
 
         setMetaMaskAccount({
@@ -195,7 +194,7 @@ const RegistrationPage: React.FC = () => {
       navigate('/login');
     } catch (error: any) {
       console.error("Registration error:", error);
-      alert("Registration failed: " + error.reason);
+      alert("Registration failed: " + (error.reason ?? error.message));
     } finally {
       setIsSubmitting(false);
     }
@@ -0,0 +1,387 @@
+// src/pages/staff/property.tsx
+import { useState, useEffect, useCallback } from "react";
+import { Dialog } from "@headlessui/react";
+import { Search, Eye, CheckCircle, XCircle, Clock, FileText } from "lucide-react";
+import {
+  getReadOnlyContract,
+  fetchPendingVerificationLands,
+  approveLandVerification,
+  rejectLandVerification,
+  handleViewGrant,
+  type YourLand,
+} from "../../lib/contracts";
+import { useAuth } from "../../AuthContext";
+import EligibilityTools from "../../components/EligibilityTools";
+
+export default function StaffProperties() {
+  const { address } = useAuth();
+
+  // Parcels waiting in the verification queue
+  const [pendingLands, setPendingLands] = useState<YourLand[]>([]);
+  // Reads need no wallet; approvals and rejections sign through connectAccount
+  const contract = getReadOnlyContract();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const [selectedLand, setSelectedLand] = useState<YourLand | null>(null);
+  // Decrypted geran of the selected parcel, as an object URL
+  const [geranUrl, setGeranUrl] = useState<string | null>(null);
+  const [isGeranLoading, setIsGeranLoading] = useState(false);
+  const [rejectLand, setRejectLand] = useState<YourLand | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  // landId of the parcel whose transaction is in flight
+  const [busyLandId, setBusyLandId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPendingLands(await fetchPendingVerificationLands(contract));
+    } catch (err) {
+      console.error("Failed to load verification queue:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      setPendingLands([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contract]);
+
+  useEffect(() => {
+    if (address) loadQueue();
+  }, [address, loadQueue]);
+
+  const closeDetails = () => {
+    if (geranUrl) URL.revokeObjectURL(geranUrl);
+    setGeranUrl(null);
+    setSelectedLand(null);
+  };
+
+  const handleViewGeran = async (land: YourLand) => {
+    setIsGeranLoading(true);
+    try {
+      setGeranUrl(await handleViewGrant(land.metadataCID));
+    } catch (err) {
+      console.error("Failed to decrypt geran:", err);
+      alert(
+        "Could not decrypt the geran. It may have been uploaded before you were appointed staff: " +
+          (err instanceof Error ? err.message : JSON.stringify(err))
+      );
+    } finally {
+      setIsGeranLoading(false);
+    }
+  };
+
+  const handleApprove = async (land: YourLand) => {
+    setBusyLandId(land.landId);
+    try {
+      const tx = await approveLandVerification(land.landId);
+      await tx.wait();
+      await loadQueue();
+    } catch (err) {
+      console.error("Approval failed:", err);
+      alert(
+        "Failed to approve land: " +
+          (err instanceof Error ? err.message : JSON.stringify(err))
+      );
+    } finally {
+      setBusyLandId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectLand) return;
+    setBusyLandId(rejectLand.landId);
+    try {
+      const tx = await rejectLandVerification(rejectLand.landId, rejectReason);
+      await tx.wait();
+      setRejectLand(null);
+      setRejectReason("");
+      await loadQueue();
+    } catch (err) {
+      console.error("Rejection failed:", err);
+      alert(
+        "Failed to reject land: " +
+          (err instanceof Error ? err.message : JSON.stringify(err))
+      );
+    } finally {
+      setBusyLandId(null);
+    }
+  };
+
+  const filteredLands = pendingLands.filter((land) => {
+    const term = searchTerm.toLowerCase();
+    return (
+      land.titleNumber.toLowerCase().includes(term) ||
+      land.username.toLowerCase().includes(term) ||
+      land.owner.toLowerCase().includes(term)
+    );
+  });
+
+  return (
+    <div className="max-w-[90%] mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-800 mb-2">
+          Land Verification Queue
+        </h1>
+        <p className="text-gray-600">
+          Review newly registered parcels before they can be traded
+        </p>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by title number, owner name, or wallet address..."
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {/* Queue Table */}
+      <div className="bg-white shadow-sm border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Property Details
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Owner Information
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Asking Price
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                    Loading verification queue...
+                  </td>
+                </tr>
+              ) : filteredLands.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                    No parcels are waiting for verification.
+                  </td>
+                </tr>
+              ) : (
+                filteredLands.map((land) => (
+                  <tr key={land.landId} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <div className="p-2 rounded-full text-orange-600 bg-orange-50">
+                          <Clock className="h-5 w-5" />
+                        </div>
+                        <div className="ml-4">
+                          <div className="text-sm font-medium text-gray-900">
+                            #{land.landId} {land.titleNumber || "—"}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {land.landType || "—"}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">
+                        {land.username || "—"}
+                      </div>
+                      <div className="text-sm text-gray-500 max-w-xs truncate">
+                        {land.owner}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        MYR {land.priceRM || "—"}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {land.timestamp
+                          ? new Date(land.timestamp).toLocaleDateString("en-MY")
+                          : "—"}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                      <button
+                        onClick={() => setSelectedLand(land)}
+                        className="text-blue-600 hover:text-blue-900 inline-flex items-center"
+                      >
+                        <Eye className="w-4 h-4 mr-1" />
+                        View
+                      </button>
+                      <button
+                        onClick={() => handleApprove(land)}
+                        // The registry refuses approvals of the reviewer's own parcels
+                        disabled={busyLandId !== null || land.owner.toLowerCase() === address?.toLowerCase()}
+                        title={
+                          land.owner.toLowerCase() === address?.toLowerCase()
+                            ? "Another staff member must approve your own parcel"
+                            : undefined
+                        }
+                        className="text-white bg-green-600 hover:bg-green-700 px-2 py-1 rounded inline-flex items-center disabled:opacity-50"
+                      >
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        {busyLandId === land.landId ? "Processing..." : "Approve"}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setRejectLand(land);
+                          setRejectReason("");
+                        }}
+                        disabled={busyLandId !== null}
+                        className="text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded inline-flex items-center disabled:opacity-50"
+                      >
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Reject
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Title restrictions, buyer attestations and state consent */}
+      <div className="mt-8">
+        <EligibilityTools contract={contract} />
+      </div>
+
+      {/* Parcel details */}
+      <Dialog
+        open={selectedLand !== null}
+        onClose={closeDetails}
+        className="relative z-50"
+      >
+        <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Dialog.Panel className="bg-white rounded-xl p-6 w-full max-w-lg shadow-xl">
+            <Dialog.Title className="text-lg font-semibold mb-4">
+              Parcel #{selectedLand?.landId}
+            </Dialog.Title>
+            {selectedLand && (
+              <dl className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="font-medium text-gray-600">Title Number</dt>
+                  <dd className="font-mono text-gray-800">
+                    {selectedLand.titleNumber || "—"}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-gray-600">Land Type</dt>
+                  <dd className="text-gray-800">{selectedLand.landType || "—"}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-gray-600">Area</dt>
+                  <dd className="text-gray-800">{selectedLand.area || "—"}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-gray-600">Asking Price</dt>
+                  <dd className="text-gray-800">MYR {selectedLand.priceRM}</dd>
+                </div>
+                <div className="col-span-2">
+                  <dt className="font-medium text-gray-600">Owner Wallet</dt>
+                  <dd className="text-gray-800 break-all">{selectedLand.owner}</dd>
+                </div>
+                <div className="col-span-2">
+                  <dt className="font-medium text-gray-600 flex items-center">
+                    <FileText className="w-4 h-4 mr-1" />
+                    Encrypted Geran CID
+                  </dt>
+                  <dd className="font-mono text-xs text-gray-800 break-all">
+                    {selectedLand.metadataCID || "—"}
+                  </dd>
+                </div>
+              </dl>
+            )}
+            {geranUrl && (
+              <iframe
+                src={geranUrl}
+                className="mt-4 w-full h-[60vh] border border-gray-200 rounded"
+                title="Land Grant PDF"
+              />
+            )}
+            <div className="mt-6 flex justify-end space-x-2">
+              {selectedLand?.metadataCID && !geranUrl && (
+                <button
+                  onClick={() => handleViewGeran(selectedLand)}
+                  disabled={isGeranLoading}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded disabled:opacity-50"
+                >
+                  {isGeranLoading ? "Decrypting..." : "View Geran"}
+                </button>
+              )}
+              <button
+                onClick={closeDetails}
+                className="bg-gray-200 text-gray-800 px-4 py-2 rounded"
+              >
+                Close
+              </button>
+            </div>
+          </Dialog.Panel>
+        </div>
+      </Dialog>
+
+      {/* Rejection reason */}
+      <Dialog
+        open={rejectLand !== null}
+        onClose={() => busyLandId === null && setRejectLand(null)}
+        className="relative z-50"
+      >
+        <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Dialog.Panel className="bg-white rounded-xl p-6 w-full max-w-md shadow-xl">
+            <Dialog.Title className="text-lg font-semibold mb-4">
+              Reject Parcel #{rejectLand?.landId}
+            </Dialog.Title>
+            <label className="block text-sm font-medium text-gray-700">
+              Reason (shown to the owner)
+            </label>
+            <textarea
+              className="mt-1 block w-full border border-gray-300 rounded-md p-2"
+              rows={3}
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="ex: Title number does not match the uploaded geran"
+            />
+            <div className="mt-6 flex justify-end space-x-2">
+              <button
+                onClick={() => setRejectLand(null)}
+                disabled={busyLandId !== null}
+                className="bg-gray-200 text-gray-800 px-4 py-2 rounded"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReject}
+                disabled={busyLandId !== null || !rejectReason.trim()}
+                className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700 disabled:opacity-50"
+              >
+                {busyLandId !== null ? "Rejecting..." : "Reject"}
+              </button>
+            </div>
+          </Dialog.Panel>
+        </div>
+      </Dialog>
+    </div>
+  );
+}
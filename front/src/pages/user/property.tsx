@@ -1,5 +1,6 @@
 // src/pages/Properties.tsx
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   Search,
   Eye,
@@ -12,28 +13,46 @@ import {
   Landmark,
   Home,
   ShoppingCart,
+  XCircle,
+  HandCoins,
+  Gavel,
 } from "lucide-react";
 import AddLandModal from "../modals/addLandModal";
 import BuyLandModal from "../modals/BuyLandModal";
 import EditLandModal from "../modals/EditLandModal";
+import WithdrawPanel from "../../components/WithdrawPanel";
+import GeranReleasePanel from "../../components/GeranReleasePanel";
+import AuctionPanel from "../../components/AuctionPanel";
+import PurchaseStepper from "../../components/PurchaseStepper";
+import SignedOffersPanel from "../../components/SignedOffersPanel";
 
-// ethers v6 の BrowserProvider と Contract 型をインポート
-import { Contract, BrowserProvider } from "ethers";
+import {
+  ZeroAddress,
+  type TransactionResponse,
+} from "ethers";
 // 作成済みの fetchAllLands 関数をインポート
 import {
   fetchAllLands,
+  getReadOnlyContract,
   requestToBuyLand,
   approvePurchase,
-  getSaleInfo,
   handleViewGrant,
+  cancelPurchaseRequest,
+  rejectPurchaseRequest,
+  expirePurchaseRequest,
+  isPurchaseExpired,
+  isCompletionOverdue,
+  enforceCompletionDeadline,
+  fetchOffers,
+  acceptOffer,
+  withdrawOffer,
+  LAND_STATUS_NAMES,
+  OWNER_STATUS_TRANSITIONS,
+  type SaleInfo,
+  type LandOffer,
 } from "../../lib/contracts";
-// ABI ファイルと AuthContext もインポート
-import LandRegistryABI from "../../../../block/artifacts/contracts/LandRegistry.sol/LandRegistry.json";
 import { useAuth } from "../../AuthContext";
 
-// .env からコントラクトアドレスを読み込む
-const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS;
-
 interface Property {
   id: string;
   titleNumber: string;
@@ -45,12 +64,20 @@ interface Property {
   propertyType: "Residential" | "Commercial" | "Agricultural" | "Industrial";
   registrationDate: string;
   lastTransfer: string;
-  status: "Active" | "ForSale" | "Approved" | "PendingApproval";
+  status:
+    | "Active"
+    | "ForSale"
+    | "Approved"
+    | "PendingApproval"
+    | "PendingVerification"
+    | "Rejected"
+    | "InAuction";
   blockchainHash: string;
   surveyNumber: string;
   marketValue: string;
   encumbrances: string[];
   metadataCID: string;
+  rejectionReason: string;
 }
 
 const statusConfig = {
@@ -58,21 +85,43 @@ const statusConfig = {
     color: "bg-green-100 text-green-800 border-green-200",
     icon: CheckCircle,
     description: "Property verified and registered on blockchain",
+    transitions: OWNER_STATUS_TRANSITIONS.Active,
   },
   PendingApproval: {
     color: "bg-yellow-100 text-yellow-800 border-yellow-200",
     icon: Clock,
     description: "Awaiting verification from owner for transaction approval",
+    transitions: OWNER_STATUS_TRANSITIONS.PendingApproval,
   },
   ForSale: {
     color: "bg-blue-100 text-blue-800 border-blue-200",
     icon: Eye,
     description: "Proeperty For Salle!",
+    transitions: OWNER_STATUS_TRANSITIONS.ForSale,
   },
   Approved: {
     color: "bg-green-100 text-green-800 border-green-200",
     icon: AlertTriangle,
     description: "Property ownership approved",
+    transitions: OWNER_STATUS_TRANSITIONS.Approved,
+  },
+  PendingVerification: {
+    color: "bg-orange-100 text-orange-800 border-orange-200",
+    icon: Clock,
+    description: "Awaiting verification by land office staff",
+    transitions: OWNER_STATUS_TRANSITIONS.PendingVerification,
+  },
+  Rejected: {
+    color: "bg-red-100 text-red-800 border-red-200",
+    icon: XCircle,
+    description: "Registration rejected by land office staff",
+    transitions: OWNER_STATUS_TRANSITIONS.Rejected,
+  },
+  InAuction: {
+    color: "bg-purple-100 text-purple-800 border-purple-200",
+    icon: Gavel,
+    description: "Open for bids until the auction ends",
+    transitions: OWNER_STATUS_TRANSITIONS.InAuction,
   },
 };
 
@@ -86,9 +135,8 @@ const propertyTypeConfig = {
 export default function Properties() {
   // AuthContext からアドレス取得
   const { address } = useAuth();
-  const [saleInfo, setSaleInfo] = useState<
-    Record<string, { priceWei: bigint; pendingBuyer: string }>
-  >({});
+  const navigate = useNavigate();
+  const [saleInfo, setSaleInfo] = useState<Record<string, SaleInfo>>({});
 
   const [isGrantOpen, setIsGrantOpen] = useState(false);
   const [grantUrl, setGrantUrl] = useState<string>("");
@@ -98,6 +146,9 @@ export default function Properties() {
   const [isBuyModalOpen, setIsBuyModalOpen] = useState(false);
   const [selectedBuyLandId, setSelectedBuyLandId] = useState<string>("");
   const [selectedBuyPrice, setSelectedBuyPrice] = useState<string>("");
+  const [buyMode, setBuyMode] = useState<"buy" | "offer">("buy");
+  // Offers book of the property open in the detail modal
+  const [offers, setOffers] = useState<LandOffer[]>([]);
 
   // 検索・フィルタ用 state
   const [searchTerm, setSearchTerm] = useState("");
@@ -112,21 +163,16 @@ export default function Properties() {
     null
   );
 
-  // コントラクトインスタンスを保持する state
-  const [contract, setContract] = useState<Contract | null>(null);
+  // 一覧・詳細の読み取りは読み取り専用コントラクトで行うので、ウォレットなしでも閲覧できる
+  const contract = getReadOnlyContract();
+  // Bumped on every reload so the withdraw panel picks up new credits
+  const [balanceRefreshKey, setBalanceRefreshKey] = useState(0);
 
   const loadAllLands = async () => {
     if (!contract) return;
     try {
       const fetched = await fetchAllLands(contract);
 
-      const statusMap: Record<number, Property["status"]> = {
-        0: "Active",
-        1: "ForSale",
-        2: "PendingApproval",
-        3: "Approved",
-      };
-
       const merged: Property[] = fetched.map((landData) => ({
         id: landData.landId.toString(),
         titleNumber: landData.titleNumber || "",
@@ -145,30 +191,25 @@ export default function Properties() {
           : "Residential",
         registrationDate: landData.timestamp || "",
         lastTransfer: "",
-        status: statusMap[Number(landData.status)] ?? "Active", // Correct enum match
+        status: LAND_STATUS_NAMES[Number(landData.status)] ?? "Active", // Correct enum match
         blockchainHash: "",
         surveyNumber: "",
         marketValue: landData.priceRM || "",
         encumbrances: [],
         metadataCID: landData.metadataCID || "",
+        rejectionReason: landData.rejectionReason || "",
       }));
 
       setProperties(merged);
 
-      const infoMap: Record<
-        string,
-        { priceWei: bigint; pendingBuyer: string }
-      > = {};
-      for (const p of merged) {
-        try {
-          infoMap[p.id] = await getSaleInfo(p.id);
-        } catch (err) {
-          console.error(`getSaleInfo failed for id=${p.id}:`, err);
-        }
+      // Sale info arrives with the paged land records; no per-parcel calls
+      const infoMap: Record<string, SaleInfo> = {};
+      for (const landData of fetched) {
+        if (landData.saleInfo) infoMap[landData.landId] = landData.saleInfo;
       }
 
       setSaleInfo(infoMap);
-      console.log("saleInfo map:", infoMap);
+      setBalanceRefreshKey((k) => k + 1);
     } catch {
       setProperties([]);
       setSaleInfo({});
@@ -180,18 +221,6 @@ export default function Properties() {
     if (contract) loadAllLands();
   }, [contract]);
 
-  // 3. Initialize contract (unchanged)
-  useEffect(() => {
-    async function init() {
-      if (!address || !window.ethereum) return;
-      const provider = new BrowserProvider(window.ethereum);
-      await provider.send("eth_requestAccounts", []);
-      const signer = await provider.getSigner();
-      setContract(new Contract(CONTRACT_ADDRESS, LandRegistryABI.abi, signer));
-    }
-    init();
-  }, [address]);
-
   // fetchAllLands を呼び出し、マッピング
   useEffect(() => {
     if (!contract) {
@@ -202,6 +231,20 @@ export default function Properties() {
     loadAllLands();
   }, [contract]);
 
+  // Load the offers book whenever a property's details are opened
+  useEffect(() => {
+    if (!contract || !selectedProperty) {
+      setOffers([]);
+      return;
+    }
+    fetchOffers(contract, selectedProperty.id)
+      .then(setOffers)
+      .catch((err) => {
+        console.error(`fetchOffers failed for id=${selectedProperty.id}:`, err);
+        setOffers([]);
+      });
+  }, [contract, selectedProperty]);
+
   // 検索・フィルタ後の配列を作成
   const filteredProperties = properties.filter((property) => {
     const matchesSearch =
@@ -236,6 +279,44 @@ export default function Properties() {
     setNewPrice(property.marketValue);
     setIsEditModalOpen(true);
   };
+  const hasPendingPurchase = (property: Property) =>
+    property.status === "PendingApproval" &&
+    Boolean(saleInfo[property.id]?.pendingBuyer) &&
+    saleInfo[property.id].pendingBuyer !== ZeroAddress;
+  // The seller accepted a deposit and the buyer now owes the balance
+  const isAwaitingCompletion = (property: Property) =>
+    hasPendingPurchase(property) && saleInfo[property.id].completionDeadline > 0;
+
+  // Send a cancel/reject/expire transaction and refresh the table
+  const runPurchaseAction = async (
+    label: string,
+    action: () => Promise<TransactionResponse>
+  ) => {
+    try {
+      const tx = await action();
+      await tx.wait();
+      await loadAllLands();
+    } catch (err) {
+      console.error(`Failed to ${label}:`, err);
+      const errorMessage =
+        err instanceof Error ? err.message : JSON.stringify(err);
+      alert(`Failed to ${label}: ` + errorMessage);
+    }
+  };
+
+  const openBuyModal = (property: Property, mode: "buy" | "offer") => {
+    // Visitors browse without a wallet; buying needs a signed-in account
+    if (!address) {
+      navigate("/login");
+      return;
+    }
+    setSelectedBuyLandId(property.id);
+    setSelectedBuyPrice(property.marketValue);
+    setBuyMode(mode);
+    setIsBuyModalOpen(true);
+    setSelectedProperty(null);
+  };
+
   const renderTableRows = (propertiesToRender: Property[]) =>
     propertiesToRender.map((property) => {
       const StatusIcon = statusConfig[property.status].icon;
@@ -285,6 +366,23 @@ export default function Properties() {
               <StatusIcon className="w-3 h-3 mr-1" />
               {property.status}
             </span>
+            {isAwaitingCompletion(property) ? (
+              <div className="text-xs text-gray-500 mt-1">
+                {isCompletionOverdue(saleInfo[property.id])
+                  ? "Completion deadline passed"
+                  : `Balance due by ${new Date(
+                      saleInfo[property.id].completionDeadline * 1000
+                    ).toLocaleString("en-MY")}`}
+              </div>
+            ) : hasPendingPurchase(property) && (
+              <div className="text-xs text-gray-500 mt-1">
+                {isPurchaseExpired(saleInfo[property.id])
+                  ? "Approval window expired"
+                  : `Approve by ${new Date(
+                      saleInfo[property.id].purchaseDeadline * 1000
+                    ).toLocaleString("en-MY")}`}
+              </div>
+            )}
           </td>
 
           <td className="px-6 py-4 whitespace-nowrap">
@@ -311,18 +409,19 @@ export default function Properties() {
 
             {address?.toLowerCase() === property.ownerAddress.toLowerCase() ? (
               <>
-                <button
-                  className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"
-                  onClick={() => handleEditProperty(property)}
-                >
-                  <Edit3 className="w-4 h-4 mr-1" />
-                  Edit
-                </button>
+                {statusConfig[property.status].transitions.length > 0 && (
+                  <button
+                    className="text-indigo-600 hover:text-indigo-900 inline-flex items-center"
+                    onClick={() => handleEditProperty(property)}
+                  >
+                    <Edit3 className="w-4 h-4 mr-1" />
+                    Edit
+                  </button>
+                )}
 
-                {saleInfo[property.id]?.pendingBuyer &&
-                  saleInfo[property.id].pendingBuyer !==
-                    "0x0000000000000000000000000000000000000000" &&
-                  property.status !== "Approved" && (
+                {hasPendingPurchase(property) &&
+                  !isAwaitingCompletion(property) &&
+                  !isPurchaseExpired(saleInfo[property.id]) && (
                     <button
                       className="text-white bg-green-600 hover:bg-green-700 px-2 py-1 rounded inline-flex items-center"
                       onClick={async () => {
@@ -347,23 +446,125 @@ export default function Properties() {
                       }}
                     >
                       <Shield className="w-4 h-4 mr-1" />
-                      Approve
+                      {saleInfo[property.id].escrowedAmount <
+                      saleInfo[property.id].priceWei
+                        ? "Accept Deposit"
+                        : "Approve"}
+                    </button>
+                  )}
+
+                {hasPendingPurchase(property) && !isAwaitingCompletion(property) && (
+                  <button
+                    className="text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded inline-flex items-center"
+                    onClick={() =>
+                      runPurchaseAction("reject purchase", () =>
+                        rejectPurchaseRequest(property.id)
+                      )
+                    }
+                  >
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Reject
+                  </button>
+                )}
+
+                {isAwaitingCompletion(property) &&
+                  isCompletionOverdue(saleInfo[property.id]) && (
+                    <button
+                      className="text-gray-600 hover:text-gray-900 inline-flex items-center"
+                      onClick={() =>
+                        runPurchaseAction("enforce completion deadline", () =>
+                          enforceCompletionDeadline(property.id)
+                        )
+                      }
+                    >
+                      <Clock className="w-4 h-4 mr-1" />
+                      Release
                     </button>
                   )}
               </>
-            ) : property.status === "ForSale" ? (
+            ) : isAwaitingCompletion(property) ? (
+              isCompletionOverdue(saleInfo[property.id]) ? (
+                <button
+                  className="text-gray-600 hover:text-gray-900 inline-flex items-center"
+                  onClick={() =>
+                    runPurchaseAction("enforce completion deadline", () =>
+                      enforceCompletionDeadline(property.id)
+                    )
+                  }
+                >
+                  <Clock className="w-4 h-4 mr-1" />
+                  Release
+                </button>
+              ) : address?.toLowerCase() ===
+                saleInfo[property.id].pendingBuyer.toLowerCase() ? (
+                <button
+                  onClick={() => handleViewProperty(property)}
+                  className="text-white bg-green-600 hover:bg-green-700 px-2 py-1 rounded inline-flex items-center"
+                >
+                  <ShoppingCart className="w-4 h-4 mr-1" />
+                  Pay Balance
+                </button>
+              ) : null
+            ) : hasPendingPurchase(property) &&
+              address?.toLowerCase() ===
+                saleInfo[property.id].pendingBuyer.toLowerCase() ? (
               <button
-                onClick={() => {
-                  setSelectedBuyLandId(property.id);
-                  setSelectedBuyPrice(property.marketValue);
-                  setIsBuyModalOpen(true);
-                  setSelectedProperty(null);
-                }}
-                className="text-green-600 hover:text-green-900 inline-flex items-center"
+                className="text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded inline-flex items-center"
+                onClick={() =>
+                  runPurchaseAction("cancel purchase", () =>
+                    cancelPurchaseRequest(property.id)
+                  )
+                }
               >
-                <ShoppingCart className="w-4 h-4 mr-1" />
-                Buy
+                <XCircle className="w-4 h-4 mr-1" />
+                {isPurchaseExpired(saleInfo[property.id])
+                  ? "Reclaim Funds"
+                  : "Cancel"}
               </button>
+            ) : hasPendingPurchase(property) &&
+              isPurchaseExpired(saleInfo[property.id]) ? (
+              <button
+                className="text-gray-600 hover:text-gray-900 inline-flex items-center"
+                onClick={() =>
+                  runPurchaseAction("release expired purchase", () =>
+                    expirePurchaseRequest(property.id)
+                  )
+                }
+              >
+                <Clock className="w-4 h-4 mr-1" />
+                Release
+              </button>
+            ) : property.status === "InAuction" ? (
+              <button
+                onClick={() => handleViewProperty(property)}
+                className="text-purple-600 hover:text-purple-900 inline-flex items-center"
+              >
+                <Gavel className="w-4 h-4 mr-1" />
+                Bid
+              </button>
+            ) : property.status === "ForSale" ||
+              property.status === "PendingApproval" ? (
+              <>
+                {property.status === "ForSale" && (
+                  <button
+                    onClick={() => openBuyModal(property, "buy")}
+                    className="text-green-600 hover:text-green-900 inline-flex items-center"
+                  >
+                    <ShoppingCart className="w-4 h-4 mr-1" />
+                    Buy
+                  </button>
+                )}
+                {/* Token listings take signed stablecoin offers only; BuyLandModal picks the kind */}
+                {saleInfo[property.id] && (
+                  <button
+                    onClick={() => openBuyModal(property, "offer")}
+                    className="text-amber-600 hover:text-amber-900 inline-flex items-center"
+                  >
+                    <HandCoins className="w-4 h-4 mr-1" />
+                    Make Offer
+                  </button>
+                )}
+              </>
             ) : null}
           </td>
         </tr>
@@ -478,6 +679,138 @@ export default function Properties() {
               </p>
             </div> */}
 
+            {/* Staff rejection reason */}
+            {property.status === "Rejected" && property.rejectionReason && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-red-800 mb-1">
+                  Rejection Reason
+                </h3>
+                <p className="text-sm text-red-700">
+                  {property.rejectionReason}
+                </p>
+              </div>
+            )}
+
+            {/* Deposit / completion stepper */}
+            {hasPendingPurchase(property) && (
+              <PurchaseStepper
+                contract={contract}
+                landId={property.id}
+                saleInfo={saleInfo[property.id]}
+                address={address}
+                onChanged={() => {
+                  onClose();
+                  loadAllLands();
+                }}
+              />
+            )}
+
+            {/* Live bid panel */}
+            {property.status === "InAuction" && (
+              <AuctionPanel
+                contract={contract}
+                landId={property.id}
+                ownerAddress={property.ownerAddress}
+                address={address}
+                onClosed={() => {
+                  onClose();
+                  loadAllLands();
+                }}
+              />
+            )}
+
+            {/* Signed (EIP-712) offers from the local offer book, or imported from a buyer's offer code */}
+            {(property.status === "ForSale" ||
+              property.status === "PendingApproval") && (
+              <SignedOffersPanel
+                contract={contract}
+                landId={property.id}
+                ownerAddress={property.ownerAddress}
+                address={address}
+                metadataCID={property.metadataCID}
+                onAccepted={() => {
+                  onClose();
+                  loadAllLands();
+                }}
+              />
+            )}
+
+            {/* Offers book */}
+            {offers.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-600 mb-2">
+                  Offers
+                </h3>
+                {address?.toLowerCase() === property.ownerAddress.toLowerCase() && (
+                  <p className="text-xs text-gray-500 mb-2">
+                    Buyers pay stamp duty and the registration fee on top of their offer; you receive the full amount.
+                  </p>
+                )}
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {offers.map((offer) => (
+                    <li
+                      key={offer.offerId}
+                      className="px-4 py-3 flex items-center justify-between text-sm"
+                    >
+                      <div>
+                        <p
+                          className={`font-semibold ${
+                            offer.active ? "text-gray-900" : "text-gray-400 line-through"
+                          }`}
+                        >
+                          MYR {offer.amountRM}
+                        </p>
+                        <p className="text-xs text-gray-500 font-mono truncate max-w-xs">
+                          {offer.buyer}
+                        </p>
+                      </div>
+                      {offer.active &&
+                        (address?.toLowerCase() ===
+                        property.ownerAddress.toLowerCase() ? (
+                          <button
+                            className="text-white bg-green-600 hover:bg-green-700 px-2 py-1 rounded"
+                            onClick={async () => {
+                              try {
+                                await acceptOffer(
+                                  property.id,
+                                  offer,
+                                  property.metadataCID
+                                );
+                                window.location.reload();
+                              } catch (err) {
+                                console.error("Accept offer failed:", err);
+                                const errorMessage =
+                                  err instanceof Error
+                                    ? err.message
+                                    : JSON.stringify(err);
+                                alert("Failed to accept offer: " + errorMessage);
+                              }
+                            }}
+                          >
+                            Accept
+                          </button>
+                        ) : address?.toLowerCase() ===
+                          offer.buyer.toLowerCase() ? (
+                          <button
+                            className="text-red-600 hover:text-red-800"
+                            onClick={async () => {
+                              await runPurchaseAction("withdraw offer", () =>
+                                withdrawOffer(property.id, offer.offerId)
+                              );
+                              if (contract) {
+                                setOffers(await fetchOffers(contract, property.id));
+                              }
+                            }}
+                          >
+                            Withdraw
+                          </button>
+                        ) : null)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Encumbrances */}
             {property.encumbrances.length > 0 && (
               <div>
@@ -556,6 +889,20 @@ export default function Properties() {
         />
       </div>
 
+      {/* Balance / Withdraw */}
+      <WithdrawPanel
+        contract={contract}
+        address={address}
+        refreshKey={balanceRefreshKey}
+      />
+
+      {/* Gerans of parcels sold without the seller's signature */}
+      <GeranReleasePanel
+        contract={contract}
+        address={address}
+        refreshKey={balanceRefreshKey}
+      />
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
         <div className="grid md:grid-cols-4 gap-4">
@@ -583,6 +930,9 @@ export default function Properties() {
               <option value="Under Review"></option>
               <option value="Disputed">PendingApproval</option>
               <option value="Transferred">Transferred</option>
+              <option value="PendingVerification">PendingVerification</option>
+              <option value="Rejected">Rejected</option>
+              <option value="InAuction">InAuction</option>
             </select>
           </div>
           <div>
@@ -689,13 +1039,13 @@ export default function Properties() {
         onClose={() => setIsBuyModalOpen(false)}
         landId={selectedBuyLandId}
         priceRM={selectedBuyPrice}
+        mode={buyMode}
         onSubmit={async (formData: FormData) => {
           // 1) pull values from the form
           const id = formData.get("landId") as string;
-          const price = formData.get("priceRM") as string;
 
-          // 2) send the buy request on-chain
-          const tx = await requestToBuyLand(id, price);
+          // 2) send the buy request on-chain at the listed ETH price
+          const tx = await requestToBuyLand(id);
           // 3) wait for it to be mined
           await tx.wait();
 
@@ -710,7 +1060,6 @@ export default function Properties() {
         isOpen={isEditModalOpen}
         onClose={() => setIsEditModalOpen(false)}
         property={editProperty}
-        contract={contract}
         reloadLands={loadAllLands}
       />
     </div>
@@ -6,9 +6,24 @@
 interface ImportMetaEnv {
   readonly VITE_LAND_REGISTRY_ADDRESS: string;
   readonly VITE_LIGHTHOUSE_API_KEY: string;  //<-- ここを追記
+  // MetadataStore: "lighthouse" (default) or "local" (Kubo-compatible node, see `npm run ipfs:local`)
+  readonly VITE_METADATA_STORE?: "lighthouse" | "local";
+  readonly VITE_LOCAL_IPFS_API?: string;      // default http://127.0.0.1:5001
+  readonly VITE_LOCAL_IPFS_GATEWAY?: string;  // default http://127.0.0.1:8080
+  // IPFS resolver: extra gateway origins (comma separated) and per-request timeout
+  readonly VITE_IPFS_GATEWAYS?: string;
+  readonly VITE_IPFS_TIMEOUT_MS?: string;     // default 8000
+  // MYR/ETH rate source: "coingecko" (default), "manual" (owner-set on-chain) or "fixture"
+  readonly VITE_RATE_SOURCE?: "coingecko" | "manual" | "fixture";
+  // SIWE session service (`npm run auth:server`), default http://127.0.0.1:8787
+  readonly VITE_AUTH_URL?: string;
+  // Network the contract is deployed on; the app asks the wallet to switch to it
+  readonly VITE_CHAIN_ID?: string;            // default 31337 (Hardhat)
+  readonly VITE_CHAIN_NAME?: string;
+  readonly VITE_RPC_URL?: string;             // default http://127.0.0.1:8545
+  readonly VITE_EXPLORER_URL?: string;
 
   // 必要であれば他にも VITE_ で始まる環境変数をここに追加
-  // readonly VITE_RPC_URL: string;
 }
 
 interface ImportMeta {